@@ -0,0 +1,331 @@
+import {
+    R,
+    addListener,
+    addListenerAll,
+    createHook,
+    htmlClosest,
+    htmlQuery,
+    localize,
+    objectHasKey,
+    settingPath,
+    signedInteger,
+    templateLocalize,
+} from "foundry-pf2e";
+import { hud } from "../main";
+import { BaseRenderOptions, BaseSettings, PF2eHudBase } from "./base/base";
+import { HealthData, getHealth } from "./shared/base";
+import { SidebarMenu, SidebarName, getSidebars } from "./sidebar/base";
+
+const SAVES = ["fortitude", "reflex", "will"] as const;
+
+const SAVES_ICONS = {
+    fortitude: "fa-solid fa-chess-rook",
+    reflex: "fa-solid fa-person-running",
+    will: "fa-solid fa-brain",
+};
+
+class PF2eHudGroup extends PF2eHudBase<GroupSettings, any, GroupRenderOptions> {
+    #controlTokenHook = createHook("controlToken", () => this.#onControlTokenDebounce());
+    #canvasPanHook = createHook("canvasPan", () => this.setPosition());
+    #canvasTearDownHook = createHook("canvasTearDown", () => this.setTokens([]));
+
+    #onControlTokenDebounce = foundry.utils.debounce(() => {
+        this.setTokens(canvas.tokens.controlled);
+    }, 1);
+
+    #tokens: GroupToken[] = [];
+    #expanded: Set<string> = new Set();
+
+    static DEFAULT_OPTIONS: PartialApplicationConfiguration = {
+        id: "pf2e-hud-group",
+        window: {
+            positioned: true,
+        },
+        position: {
+            width: "auto",
+            height: "auto",
+        },
+    };
+
+    get SETTINGS_ORDER(): (keyof GroupSettings)[] {
+        return ["enabled", "fontSize"];
+    }
+
+    getSettings() {
+        const parentSettings = super.getSettings();
+
+        const enabledSetting = parentSettings.find((x) => x.key === "enabled")!;
+        enabledSetting.hint = settingPath("group.enabled.hint");
+
+        return parentSettings;
+    }
+
+    get key(): "group" {
+        return "group";
+    }
+
+    get templates() {
+        return ["hud"];
+    }
+
+    get tokens() {
+        return this.#tokens.slice();
+    }
+
+    get actors() {
+        return this.#tokens.map((token) => token.actor);
+    }
+
+    _onEnable(enabled = this.enabled) {
+        this.#controlTokenHook.toggle(enabled);
+        this.#canvasTearDownHook.toggle(enabled);
+
+        if (!enabled && this.rendered) {
+            this.close();
+        }
+    }
+
+    async _prepareContext(options: GroupRenderOptions): Promise<GroupContext> {
+        const actors = this.actors;
+
+        const members = this.#tokens.map(({ document, actor }): GroupMember => {
+            const saves = R.pipe(
+                SAVES,
+                R.map((slug) => {
+                    const statistic = actor.getStatistic(slug);
+                    if (!statistic) return;
+
+                    return {
+                        slug,
+                        icon: SAVES_ICONS[slug],
+                        label: statistic.label,
+                        value: signedInteger(statistic.mod),
+                    };
+                }),
+                R.filter(R.isTruthy)
+            );
+
+            return {
+                uuid: actor.uuid,
+                name: document.name,
+                img: document.texture.src ?? actor.img,
+                health: getHealth(actor),
+                ac: actor.attributes.ac?.value,
+                saves,
+                sidebars: getSidebars(actor),
+                expanded: this.#expanded.has(actor.uuid),
+            };
+        });
+
+        const skills = R.pipe(
+            actors,
+            R.flatMap((actor) => R.values(actor.skills)),
+            R.uniqueBy(({ slug }) => slug),
+            R.map(({ slug, label }) => ({ value: slug, label })),
+            R.sortBy(R.prop("label"))
+        );
+
+        const conditions = R.pipe(
+            R.entries(CONFIG.PF2E.conditionTypes),
+            R.map(([value, label]) => ({ value, label: game.i18n.localize(label) })),
+            R.sortBy(R.prop("label"))
+        );
+
+        return {
+            members,
+            saves: SAVES.map((slug) => {
+                const label = game.i18n.localize(CONFIG.PF2E.saves[slug]);
+                return {
+                    slug,
+                    icon: SAVES_ICONS[slug],
+                    label,
+                    tooltip: localize("group.rollSave", { save: label }),
+                };
+            }),
+            skills: [
+                { value: "perception", label: game.i18n.localize("PF2E.PerceptionLabel") },
+                ...skills,
+            ],
+            conditions,
+            canRaiseShield: actors.some((actor) => !!actor.heldShield),
+            i18n: templateLocalize("group"),
+        };
+    }
+
+    async _renderHTML(context: GroupContext, options: GroupRenderOptions) {
+        return this.renderTemplate("hud", context);
+    }
+
+    _replaceHTML(result: string, content: HTMLElement, options: GroupRenderOptions) {
+        content.innerHTML = result;
+        content.style.setProperty("--font-size", `${options.fontSize}px`);
+
+        this.#activateListeners(content);
+    }
+
+    _onRender(context: ApplicationRenderContext, options: ApplicationRenderOptions) {
+        this.#canvasPanHook.activate();
+        this.setPosition();
+    }
+
+    _onClose(options: ApplicationClosingOptions) {
+        this.#canvasPanHook.disable();
+        this.#cleanup();
+        this.#tokens = [];
+        super._onClose(options);
+    }
+
+    _updatePosition(position = {} as ApplicationPosition) {
+        const element = this.element;
+        if (!element || !this.#tokens.length) return position;
+
+        const bounds = this.#tokens.map(({ bounds }) => bounds);
+        const topLeft = canvas.clientCoordinatesFromCanvas({
+            x: Math.min(...bounds.map(({ left }) => left)),
+            y: Math.min(...bounds.map(({ top }) => top)),
+        });
+        const bottomRight = canvas.clientCoordinatesFromCanvas({
+            x: Math.max(...bounds.map(({ right }) => right)),
+            y: Math.max(...bounds.map(({ bottom }) => bottom)),
+        });
+
+        const { width, height } = element.getBoundingClientRect();
+        const margin = 10;
+        const center = (topLeft.x + bottomRight.x) / 2;
+        const above = topLeft.y - height - margin;
+        const top = above >= 0 ? above : bottomRight.y + margin;
+
+        position.left = Math.clamp(center - width / 2, 0, window.innerWidth - width);
+        position.top = Math.clamp(top, 0, window.innerHeight - height);
+
+        return position;
+    }
+
+    isValidToken(token: TokenPF2e): token is GroupToken {
+        const actor = token.actor;
+        return !!actor?.isOwner && actor.isOfType("creature") && !!actor.attributes.hp?.max;
+    }
+
+    setTokens(tokens: TokenPF2e[]) {
+        this.#cleanup();
+
+        this.#tokens = tokens.filter((token): token is GroupToken => this.isValidToken(token));
+
+        if (this.#tokens.length < 2) {
+            this.#tokens = [];
+            this.close();
+            return;
+        }
+
+        for (const actor of this.actors) {
+            actor.apps[this.id] = this;
+        }
+
+        hud.token.close();
+        this.render(true);
+    }
+
+    #cleanup() {
+        for (const actor of this.actors) {
+            delete actor.apps[this.id];
+        }
+    }
+
+    #getMember(el: HTMLElement) {
+        const uuid = htmlClosest(el, "[data-member-uuid]")?.dataset.memberUuid;
+        return this.#tokens.find(({ actor }) => actor.uuid === uuid);
+    }
+
+    #activateListeners(html: HTMLElement) {
+        addListenerAll(html, "[data-action='roll-save']", (event, el) => {
+            const slug = el.dataset.statistic ?? "";
+
+            for (const actor of this.actors) {
+                actor.getStatistic(slug)?.roll({ event });
+            }
+        });
+
+        addListener(html, "[data-action='roll-skill']", "change", (event, el) => {
+            const select = el as HTMLSelectElement;
+            const slug = select.value;
+            select.value = "";
+
+            for (const actor of this.actors) {
+                actor.getStatistic(slug)?.roll({ event });
+            }
+        });
+
+        addListener(html, "[data-action='apply-condition']", () => {
+            const slug = htmlQuery<HTMLSelectElement>(html, "select[name='condition']")?.value;
+            if (!objectHasKey(CONFIG.PF2E.conditionTypes, slug)) return;
+
+            for (const actor of this.actors) {
+                actor.increaseCondition(slug);
+            }
+        });
+
+        addListener(html, "[data-action='raise-shield']", (event) => {
+            const actors = this.actors.filter((actor) => !!actor.heldShield);
+            game.pf2e.actions.raiseAShield({ actors, event });
+        });
+
+        addListenerAll(html, "[data-action='toggle-member']", (event, el) => {
+            const uuid = this.#getMember(el)?.actor.uuid;
+            if (!uuid) return;
+
+            if (this.#expanded.has(uuid)) this.#expanded.delete(uuid);
+            else this.#expanded.add(uuid);
+
+            this.render();
+        });
+
+        addListenerAll(html, "[data-action='open-sidebar']:not(.disabled)", (event, el) => {
+            const token = this.#getMember(el);
+            if (!token) return;
+
+            // the token HUD takes over, it would otherwise open over the group
+            this.close();
+
+            hud.token.setToken(token);
+            hud.token.toggleSidebar(el.dataset.sidebar as SidebarName);
+        });
+    }
+}
+
+type GroupToken = TokenPF2e & { actor: CreaturePF2e };
+
+type GroupSettings = BaseSettings;
+
+type GroupRenderOptions = BaseRenderOptions;
+
+type GroupSave = {
+    slug: (typeof SAVES)[number];
+    icon: string;
+    label: string;
+};
+
+type GroupSaveAction = GroupSave & {
+    tooltip: string;
+};
+
+type GroupMember = {
+    uuid: string;
+    name: string;
+    img: string;
+    health: HealthData | undefined;
+    ac: number | undefined;
+    saves: (GroupSave & { value: string })[];
+    sidebars: SidebarMenu[];
+    expanded: boolean;
+};
+
+type GroupContext = {
+    members: GroupMember[];
+    saves: GroupSaveAction[];
+    skills: { value: string; label: string }[];
+    conditions: { value: string; label: string }[];
+    canRaiseShield: boolean;
+    i18n: ReturnType<typeof templateLocalize>;
+};
+
+export { PF2eHudGroup };
@@ -22,6 +22,7 @@ import {
     getOwner,
     getRankLabel,
     getRemainingDurationLabel,
+    getStances,
     hasItemWithSourceId,
     htmlClosest,
     htmlQuery,
@@ -29,16 +30,40 @@ import {
     isValidStance,
     localize,
     objectHasKey,
+    promptDialog,
     resolveMacroActor,
     setFlag,
     templateLocalize,
     toggleStance,
     unsetFlag,
+    waitDialog,
     warn,
 } from "foundry-pf2e";
 import { rollRecallKnowledge } from "../actions/recall-knowledge";
 import { hud } from "../main";
 import { AvatarData, editAvatar } from "../utils/avatar";
+import { addEffectDropListener, setEffectDragData } from "../utils/effects";
+import {
+    addBlastsPreviewListeners,
+    addStrikesPreviewListeners,
+    getSpellPreviewTooltip,
+    setPreviewTooltip,
+} from "../utils/hit-preview";
+import { activateMapVariants, getMapIndex } from "../utils/map";
+import {
+    AutoFillRule,
+    editAutoFillRules,
+    getDefaultAutoFillRules,
+    testAutoFillRule,
+} from "../utils/fill-rules";
+import {
+    ShortcutItemReference,
+    addShortcutReferences,
+    exportShortcuts,
+    getStaleShortcuts,
+    importShortcuts,
+    repairShortcuts,
+} from "../utils/shortcuts";
 import {
     BaseActorContext,
     BaseActorRenderOptions,
@@ -61,8 +86,9 @@ import {
     getAdvancedStats,
     getStatsHeaderExtras,
 } from "./shared/advanced";
-import { StatsHeader, getStatsHeader } from "./shared/base";
+import { HealthData, StatsHeader, getHealth, getStatsHeader } from "./shared/base";
 import { addStatsAdvancedListeners, addStatsHeaderListeners } from "./shared/listeners";
+import { getVehicleToken } from "./shared/vehicle";
 import {
     ActionBlast,
     ActionStrike,
@@ -85,8 +111,24 @@ import {
     rollStatistic,
 } from "./sidebar/skills";
 
-const PARTS = ["menu", "portrait", "main", "effects"] as const;
+const PARTS = ["menu", "portrait", "main", "effects", "group", "checklist"] as const;
 const ROMAN_RANKS = ["", "Ⅰ", "Ⅱ", "Ⅲ", "Ⅳ", "Ⅴ", "Ⅵ", "Ⅶ", "Ⅷ", "Ⅸ", "Ⅹ"] as const;
+const DEFAULT_PAGE = "default";
+const HISTORY_SIZE = 10;
+const LAYOUTS = ["bottom", "left", "right", "top", "free"] as const;
+const DRAGGABLE_PARTS = ["menu", "portrait", "main"] as const;
+const SNAP_DISTANCE = 20;
+const EFFECTS_GROUPS = ["conditions", "persistent", "spells", "auras", "other"] as const;
+const EFFECTS_GROUPS_ICONS: Record<EffectsGroupSlug, string> = {
+    conditions: "fa-solid fa-face-dizzy",
+    persistent: "fa-solid fa-droplet",
+    spells: "fa-solid fa-wand-magic-sparkles",
+    auras: "fa-solid fa-circle-radiation",
+    other: "fa-solid fa-ellipsis",
+};
+const ACTIONS_PER_TURN = 3;
+const AUTO_SET_FALLBACK: AutoSetSetting[] = ["select", "ownedCombat", "party"];
+const ICON_COMBO = "icons/svg/combat.svg";
 
 class PF2eHudPersistent extends makeAdvancedHUD(
     PF2eHudBaseActor<
@@ -97,10 +139,21 @@ class PF2eHudPersistent extends makeAdvancedHUD(
     >
 ) {
     #onControlTokenDebounce = foundry.utils.debounce(this.#onControlToken.bind(this), 1);
+    #onPartyChangeDebounce = foundry.utils.debounce(this.#onPartyChange.bind(this), 10);
+    #renderMenuDebounce = foundry.utils.debounce(() => this.render({ parts: ["menu"] }), 50);
+    #onGroupControlTokenDebounce = foundry.utils.debounce(
+        this.#onGroupControlToken.bind(this),
+        1
+    );
+    #cycleShortcutPageDebounce = foundry.utils.debounce(this.cycleShortcutPage.bind(this), 100);
 
     #renderActorSheetHook = createHook("renderActorSheet", this.#onRenderActorSheet.bind(this));
     #renderTokenHudHook = createHook("renderTokenHUD", () => this.closeSidebar());
     #controlTokenHook = createHook("controlToken", this.#onControlTokenDebounce.bind(this));
+    #groupControlTokenHook = createHook(
+        "controlToken",
+        this.#onGroupControlTokenDebounce.bind(this)
+    );
     #renderHotbarHook = createHook("renderHotbar", this.#onRenderHotbar.bind(this));
     #deleteTokenHook = createHook("deleteToken", this.#onDeleteToken.bind(this));
     #deleteActorHook = createHook("deleteActor", this.#onDeleteActor.bind(this));
@@ -109,6 +162,17 @@ class PF2eHudPersistent extends makeAdvancedHUD(
     #deleteCombatantHook = createHook("deleteCombatant", this.#onChangeCombatant.bind(this));
     #createCombatantHook = createHook("createCombatant", this.#onChangeCombatant.bind(this));
     #combatTurnHook = createHook("combatTurnChange", this.#onCombatTurnChange.bind(this));
+    #updateCombatantHook = createHook("updateCombatant", this.#onUpdateCombatant.bind(this));
+    #createChatMessageHook = createHook(
+        "createChatMessage",
+        this.#onCreateChatMessage.bind(this)
+    );
+    #partyHooks = ["canvasReady", "createToken", "deleteToken", "updateActor"].map((hook) =>
+        createHook(hook, this.#onPartyChangeDebounce.bind(this))
+    );
+    #vehicleHooks = ["createToken", "updateToken", "deleteToken"].map((hook) =>
+        createHook(hook, this.#onVehicleChange.bind(this))
+    );
 
     #temporaryStyles = createTemporaryStyles();
 
@@ -120,12 +184,17 @@ class PF2eHudPersistent extends makeAdvancedHUD(
     #shortcutData: UserShortcutsData = {};
     #effectsInstructions: Record<string, string> | null = null;
     #effectsShiftInstructions: Record<string, string> | null = null;
+    #turnChecklist: TurnChecklist | null = null;
+    #actionsSpent: Record<string, ActionsSpent> = {};
+    #groupApps: Set<ActorPF2e> = new Set();
 
     #elements: Record<PartName, HTMLElement | null> = {
         menu: null,
         portrait: null,
         main: null,
         effects: null,
+        group: null,
+        checklist: null,
     };
 
     #hotbar: HTMLElement | null = null;
@@ -153,6 +222,16 @@ class PF2eHudPersistent extends makeAdvancedHUD(
             prepareContext: this.#prepareEffectsContext.bind(this),
             activateListeners: this.#activateEffectsListeners.bind(this),
         },
+        group: {
+            tooltipDirection: "RIGHT",
+            prepareContext: this.#prepareGroupContext.bind(this),
+            activateListeners: this.#activateGroupListeners.bind(this),
+        },
+        checklist: {
+            tooltipDirection: "UP",
+            prepareContext: this.#prepareChecklistContext.bind(this),
+            activateListeners: this.#activateChecklistListeners.bind(this),
+        },
     };
 
     static DEFAULT_OPTIONS: PartialApplicationConfiguration = {
@@ -167,13 +246,12 @@ class PF2eHudPersistent extends makeAdvancedHUD(
             "enabled",
             "autoSet",
             "keepLast",
+            "cycleActors",
+            "layout",
             "fontSize",
             "shortcutSlots",
             "ownerShortcuts",
             "autoFillNpc",
-            "autoFillActions",
-            "autoFillReactions",
-            "autoFillType",
             "noflash",
             "confirmShortcut",
             "consumableShortcut",
@@ -182,6 +260,10 @@ class PF2eHudPersistent extends makeAdvancedHUD(
             "closeOnSkill",
             "showAlliance",
             "shiftEffects",
+            "groupEffects",
+            "sortEffects",
+            "turnChecklist",
+            "actionTracker",
         ];
     }
 
@@ -190,7 +272,7 @@ class PF2eHudPersistent extends makeAdvancedHUD(
             {
                 key: "autoSet",
                 type: String,
-                choices: ["disabled", "select", "combat"],
+                choices: ["disabled", "select", "combat", "ownedCombat", "party"],
                 default: "disabled",
                 scope: "client",
                 onChange: () => {
@@ -204,37 +286,33 @@ class PF2eHudPersistent extends makeAdvancedHUD(
                 scope: "client",
             },
             {
-                key: "autoFillNpc",
-                type: Boolean,
-                default: true,
+                key: "layout",
+                type: String,
+                choices: LAYOUTS.slice(),
+                default: "bottom",
                 scope: "client",
-                onChange: () => {
-                    this.render({ parts: ["main"] });
+                onChange: (value: PersistentLayout) => {
+                    this.#onLayoutChange(value);
                 },
             },
             {
-                key: "autoFillActions",
-                type: Boolean,
-                default: true,
+                key: "positions",
+                type: Object,
+                default: {},
                 scope: "client",
-                onChange: () => {
-                    this.render({ parts: ["main"] });
-                },
+                config: false,
             },
             {
-                key: "autoFillReactions",
-                type: Boolean,
-                default: true,
+                key: "cycleActors",
+                type: String,
+                choices: ["history", "party", "scene"],
+                default: "history",
                 scope: "client",
-                onChange: () => {
-                    this.render({ parts: ["main"] });
-                },
             },
             {
-                key: "autoFillType",
-                type: String,
-                choices: ["one", "two"],
-                default: "one",
+                key: "autoFillNpc",
+                type: Boolean,
+                default: true,
                 scope: "client",
                 onChange: () => {
                     this.render({ parts: ["main"] });
@@ -319,6 +397,79 @@ class PF2eHudPersistent extends makeAdvancedHUD(
                     this.render({ parts: ["effects"] });
                 },
             },
+            {
+                key: "groupEffects",
+                type: Boolean,
+                default: true,
+                scope: "client",
+                onChange: () => {
+                    this.render({ parts: ["effects"] });
+                },
+            },
+            {
+                key: "sortEffects",
+                type: String,
+                choices: ["none", "duration", "name"],
+                default: "none",
+                scope: "client",
+                onChange: () => {
+                    this.render({ parts: ["effects"] });
+                },
+            },
+            {
+                key: "collapsedEffects",
+                type: Array,
+                default: [],
+                scope: "client",
+                config: false,
+                onChange: () => {
+                    this.render({ parts: ["effects"] });
+                },
+            },
+            {
+                key: "turnChecklist",
+                type: Boolean,
+                default: false,
+                scope: "client",
+                onChange: (value) => {
+                    this.#toggleCombatTurnHook();
+
+                    if (!value) {
+                        this.#turnChecklist = null;
+                        this.#elements.checklist?.remove();
+                        this.#elements.checklist = null;
+                    }
+                },
+            },
+            {
+                key: "actionTracker",
+                type: Boolean,
+                default: false,
+                scope: "client",
+                onChange: (value) => {
+                    this.#toggleCombatTurnHook();
+                    this.#createChatMessageHook.toggle(this.enabled && value);
+                    this.render({ parts: ["portrait"] });
+                },
+            },
+            {
+                key: "multiActor",
+                type: Boolean,
+                default: false,
+                scope: "client",
+                config: false,
+                onChange: (value) => {
+                    this.#groupControlTokenHook.toggle(this.enabled && value);
+
+                    if (!value) {
+                        this.#groupCleanup();
+                        this.#elements.group?.remove();
+                        this.#elements.group = null;
+                    }
+
+                    this.render({ parts: value ? ["menu", "group"] : ["menu"] });
+                },
+            },
             {
                 key: "cleanPortrait",
                 type: Boolean,
@@ -351,7 +502,7 @@ class PF2eHudPersistent extends makeAdvancedHUD(
     }
 
     get templates(): PartName[] {
-        return ["portrait", "main", "menu", "effects"];
+        return ["portrait", "main", "menu", "effects", "group", "checklist"];
     }
 
     get key(): "persistent" {
@@ -382,6 +533,14 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         return this.#elements.effects;
     }
 
+    get groupElement() {
+        return this.#elements.group;
+    }
+
+    get checklistElement() {
+        return this.#elements.checklist;
+    }
+
     get hotbarElement() {
         return (this.#hotbar = document.getElementById("hotbar"));
     }
@@ -398,14 +557,25 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         const sidebars = this.mainElement?.querySelector(".sidebars");
         if (!sidebars) return { x: 100, y: 100 };
 
-        const { left, top, width } = sidebars.getBoundingClientRect();
+        const { left, top, right, bottom, width, height } = sidebars.getBoundingClientRect();
+        const layout = this.getSetting("layout");
+
+        if (layout === "left" || layout === "right") {
+            const isLeft = layout === "left";
+
+            return {
+                x: isLeft ? right : left,
+                y: top + height / 2,
+                limits: isLeft ? { left: right } : { right: left },
+            };
+        }
+
+        const openDown = layout === "top" || (layout === "free" && top < window.innerHeight / 2);
 
         return {
             x: left + width / 2,
-            y: top,
-            limits: {
-                bottom: top,
-            },
+            y: openDown ? bottom : top,
+            limits: openDown ? { top: bottom } : { bottom: top },
         };
     }
 
@@ -419,6 +589,61 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         return this.isValidActor(actor) ? actor : null;
     }
 
+    get groupActors(): PersistentHudActor[] {
+        if (!this.getSetting("multiActor")) return [];
+
+        const saved = this.getUserSetting("group") ?? [];
+        const selected = canvas.ready ? canvas.tokens.controlled.map((token) => token.actor) : [];
+        const actors = saved.length ? saved.map((uuid) => fromUuidSync<ActorPF2e>(uuid)) : selected;
+
+        return R.pipe(
+            actors,
+            R.filter((actor): actor is PersistentHudActor => this.isValidActor(actor)),
+            R.uniqueBy((actor) => actor.uuid)
+        );
+    }
+
+    get actorsHistory(): ActorPF2e[] {
+        const history = this.getUserSetting("history") ?? [];
+
+        return R.pipe(
+            history,
+            R.map((uuid) => fromUuidSync<ActorPF2e>(uuid)),
+            R.filter((actor): actor is ActorPF2e => this.isValidActor(actor))
+        );
+    }
+
+    get shortcutPages(): ShortcutPage[] {
+        return this.#getShortcutPages(this.worldActor);
+    }
+
+    get currentPage(): ShortcutPage {
+        return this.#getCurrentPage(this.worldActor);
+    }
+
+    #getShortcutPages(worldActor: Maybe<ActorPF2e>): ShortcutPage[] {
+        const list = worldActor
+            ? getFlag<ShortcutPagesData>(worldActor, "persistent.pages", game.user.id)?.list
+            : undefined;
+
+        return list?.length
+            ? list.slice()
+            : [{ id: DEFAULT_PAGE, name: localize("persistent.main.pages.default") }];
+    }
+
+    #getCurrentPage(worldActor: Maybe<ActorPF2e>): ShortcutPage {
+        const pages = this.#getShortcutPages(worldActor);
+        const current = worldActor
+            ? getFlag<string>(worldActor, "persistent.pages", game.user.id, "current")
+            : undefined;
+
+        return pages.find((page) => page.id === current) ?? pages[0];
+    }
+
+    get autoFillRules(): AutoFillRule[] {
+        return this.getUserSetting("autoFillRules") ?? getDefaultAutoFillRules();
+    }
+
     get effectsInstructions() {
         this.#effectsInstructions ??= R.pipe(
             {
@@ -459,7 +684,17 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         this.#createCombatantHook.toggle(enabled);
 
         this.#controlTokenHook.toggle(enabled && autoSet === "select");
-        this.#combatTurnHook.toggle(enabled && autoSet === "combat");
+        this.#groupControlTokenHook.toggle(enabled && this.getSetting("multiActor"));
+        this.#toggleCombatTurnHook(enabled);
+        this.#createChatMessageHook.toggle(enabled && this.getSetting("actionTracker"));
+
+        for (const hook of this.#vehicleHooks) {
+            hook.toggle(enabled);
+        }
+
+        for (const hook of this.#partyHooks) {
+            hook.toggle(enabled && autoSet === "party");
+        }
 
         if (enabled) {
             let actor = this.savedActor;
@@ -467,13 +702,11 @@ class PF2eHudPersistent extends makeAdvancedHUD(
                 return this.setActor(actor, { skipSave: true });
             }
 
-            if (autoSet === "combat") {
-                const combatant = game.combat?.combatants.get(
-                    game.combat?.current.combatantId ?? ""
-                );
+            if (autoSet === "combat" || autoSet === "ownedCombat") {
+                actor = this.#getAutoSetActor(autoSet);
 
-                if (this.isValidActor(combatant?.actor)) {
-                    this.setActor(combatant.actor, { skipSave: true });
+                if (actor) {
+                    this.setActor(actor, { skipSave: true });
                     return;
                 }
             }
@@ -496,6 +729,9 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         options.cleaned = this.getSetting("cleanPortrait");
         options.showUsers = this.getSetting("showUsers");
         options.showEffects = this.getSetting("showEffects");
+        options.multiActor = this.getSetting("multiActor");
+        options.turnChecklist = this.getSetting("turnChecklist");
+        options.layout = this.getSetting("layout");
 
         options.parts ??= PARTS.slice();
     }
@@ -531,10 +767,21 @@ class PF2eHudPersistent extends makeAdvancedHUD(
             options.parts.findSplice((x) => x === "effects");
         }
 
+        if (!options.multiActor) {
+            options.parts.findSplice((x) => x === "group");
+        }
+
+        if (!options.turnChecklist) {
+            options.parts.findSplice((x) => x === "checklist");
+        }
+
         return Promise.all(
             options.parts.map(async (partName) => {
                 const part = this.#parts[partName];
-                const tooltipDirection = part.tooltipDirection ?? "DOWN";
+                const tooltipDirection =
+                    options.layout === "top" && part.tooltipDirection === "UP"
+                        ? "DOWN"
+                        : part.tooltipDirection ?? "DOWN";
                 const partContext = await part.prepareContext(context, options);
                 const template = await this.renderTemplate(partName, {
                     i18n: templateLocalize(`persistent.${partName}`),
@@ -576,10 +823,14 @@ class PF2eHudPersistent extends makeAdvancedHUD(
                 content.append(element);
             }
 
-            if (hotbar && name === "main") {
+            if (hotbar && name === "main" && options.layout === "bottom") {
                 element.appendChild(hotbar);
             }
 
+            if (options.layout === "free" && R.isIncludedIn(name, DRAGGABLE_PARTS)) {
+                this.#setupDraggable(name, element);
+            }
+
             if (focusName) {
                 element.querySelector<HTMLInputElement>(`input[name="${focusName}"]`)?.focus();
             }
@@ -591,14 +842,121 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         if (options.showEffects && options.parts.includes("effects") && this.effectsElement) {
             this.mainElement?.append(this.effectsElement);
         }
+
+        if (this.groupElement) {
+            this.portraitElement?.append(this.groupElement);
+        }
+
+        if (this.checklistElement) {
+            const hasStrips = !!this.groupElement?.querySelector(".strip");
+            (hasStrips ? this.groupElement : this.portraitElement)?.append(this.checklistElement);
+        }
     }
 
     _onFirstRender(context: PersistentContext, options: PersistentRenderOptions) {
-        document.getElementById("ui-left")?.append(this.element);
-        this.#temporaryStyles.add("#interface", "has-hud-persistent");
+        this.#applyLayout(options.layout);
         this.#temporaryStyles.toggle("#interface", "show-users", options.showUsers);
     }
 
+    #applyLayout(layout: PersistentLayout) {
+        const element = this.element;
+        const isBottom = layout === "bottom";
+        const parent = isBottom ? document.getElementById("ui-left") : document.body;
+
+        for (const name of LAYOUTS) {
+            element.classList.toggle(`layout-${name}`, name === layout);
+        }
+
+        if (parent && element.parentElement !== parent) {
+            parent.append(element);
+        }
+
+        if (!isBottom) {
+            this.#restoreHotbar();
+        }
+
+        this.#temporaryStyles.toggle("#interface", "has-hud-persistent", isBottom);
+    }
+
+    async #onLayoutChange(layout: PersistentLayout) {
+        if (layout === "free" && R.isEmpty(this.getSetting("positions"))) {
+            await this.#savePartPositions();
+        }
+
+        if (!this.rendered) return;
+
+        this.#applyLayout(layout);
+        this.render();
+    }
+
+    #savePartPositions() {
+        const positions: PartPositions = {};
+
+        for (const name of DRAGGABLE_PARTS) {
+            const element = this.#elements[name];
+            if (!element) continue;
+
+            const { left, top } = element.getBoundingClientRect();
+            positions[name] = { left, top };
+        }
+
+        return this.setSetting("positions", positions);
+    }
+
+    #setupDraggable(name: DraggablePart, element: HTMLElement) {
+        const position = this.getSetting("positions")[name];
+
+        if (position) {
+            element.style.left = `${position.left}px`;
+            element.style.top = `${position.top}px`;
+        }
+
+        const handle = createHTMLElement("a", {
+            classes: ["drag-handle"],
+            innerHTML: "<i class='fa-solid fa-grip-vertical'></i>",
+        });
+
+        handle.addEventListener("pointerdown", (event) => {
+            event.preventDefault();
+
+            const bounds = element.getBoundingClientRect();
+            const offsetX = event.clientX - bounds.left;
+            const offsetY = event.clientY - bounds.top;
+
+            const onMove = (event: PointerEvent) => {
+                element.style.left = `${event.clientX - offsetX}px`;
+                element.style.top = `${event.clientY - offsetY}px`;
+            };
+
+            const onUp = () => {
+                window.removeEventListener("pointermove", onMove);
+                window.removeEventListener("pointerup", onUp);
+
+                const position = snapToEdges(element.getBoundingClientRect());
+
+                element.style.left = `${position.left}px`;
+                element.style.top = `${position.top}px`;
+
+                this.setSetting("positions", {
+                    ...this.getSetting("positions"),
+                    [name]: position,
+                });
+            };
+
+            window.addEventListener("pointermove", onMove);
+            window.addEventListener("pointerup", onUp);
+        });
+
+        element.append(handle);
+    }
+
+    #restoreHotbar() {
+        const hotbar = this.hotbarElement;
+        if (hotbar && !document.getElementById("ui-bottom")?.contains(hotbar)) {
+            document.querySelector("#ui-bottom > div")?.prepend(hotbar);
+        }
+    }
+
     _onRender(context: PersistentContext, options: PersistentRenderOptions) {
         this.sidebar?.render(true);
     }
@@ -613,6 +971,8 @@ class PF2eHudPersistent extends makeAdvancedHUD(
     }
 
     _onClose(options: ApplicationClosingOptions) {
+        this.#groupCleanup();
+
         for (const key in this.#elements) {
             this.#elements[key as PartName]?.remove();
             this.#elements[key as PartName] = null;
@@ -626,10 +986,7 @@ class PF2eHudPersistent extends makeAdvancedHUD(
     async close(options?: ApplicationClosingOptions & { forced?: boolean }): Promise<this> {
         if (!options?.forced) return this;
 
-        const hotbar = this.hotbarElement;
-        if (hotbar) {
-            document.querySelector("#ui-bottom > div")?.prepend(hotbar);
-        }
+        this.#restoreHotbar();
 
         return super.close(options);
     }
@@ -651,10 +1008,9 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         return this.isValidActor(assigned) ? assigned : null;
     }
 
-    async setActor(
-        actor: ActorPF2e | null,
-        { token, skipSave, force }: { token?: Token; skipSave?: boolean; force?: boolean } = {}
-    ) {
+    async setActor(actor: ActorPF2e | null, options: SetActorOptions = {}) {
+        const { token, skipSave, skipHistory, force } = options;
+
         if (!this.isValidActor(actor)) {
             actor = null;
         }
@@ -663,20 +1019,14 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         const userActor = user.character;
         const autoSet = this.getSetting("autoSet");
         const keepLast = autoSet !== "disabled" && this.getSetting("keepLast");
-        if (!force && keepLast && !actor && (autoSet !== "select" || !userActor)) return;
+        const fallback = AUTO_SET_FALLBACK.includes(autoSet) && !!userActor;
+        if (!force && keepLast && !actor && !fallback) return;
 
         const savedActor = actor;
         this._actorCleanup();
 
         if (!actor) {
-            let potentialActor = null;
-
-            if (autoSet === "combat") {
-                const combatantId = game.combat?.current.combatantId ?? "";
-                potentialActor = game.combat?.combatants.get(combatantId)?.actor;
-            } else if (autoSet === "select") {
-                potentialActor = R.only(canvas.tokens.controlled)?.actor;
-            }
+            let potentialActor = this.#getAutoSetActor(autoSet);
 
             if (!this.isValidActor(potentialActor)) {
                 potentialActor = userActor;
@@ -706,7 +1056,110 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         this.#actor = actor as PersistentHudActor;
 
         if (!skipSave) await this.setUserSetting("selected", savedActor?.uuid ?? "");
-        this.render(!!actor);
+        if (!skipSave && !skipHistory && savedActor) await this.#addToHistory(savedActor);
+
+        return this.render(!!actor);
+    }
+
+    async #addToHistory(actor: ActorPF2e) {
+        const history = this.actorsHistory.map((actor) => actor.uuid);
+
+        history.findSplice((uuid) => uuid === actor.uuid);
+        history.unshift(actor.uuid);
+
+        return this.setUserSetting("history", history.slice(0, HISTORY_SIZE));
+    }
+
+    #getAutoSetActor(autoSet: AutoSetSetting): ActorPF2e | null {
+        const actor = (() => {
+            switch (autoSet) {
+                case "select": {
+                    return R.only(canvas.tokens.controlled)?.actor;
+                }
+
+                case "combat": {
+                    return this.#getCombatantActor();
+                }
+
+                case "ownedCombat": {
+                    const actor = this.#getCombatantActor();
+                    return actor && this.#isOwnedCombatant(actor) ? actor : null;
+                }
+
+                case "party": {
+                    return this.#getPartyActor();
+                }
+            }
+        })();
+
+        return this.isValidActor(actor) ? actor : null;
+    }
+
+    #getCombatantActor() {
+        const combatantId = game.combat?.current.combatantId ?? "";
+        return game.combat?.combatants.get(combatantId)?.actor ?? null;
+    }
+
+    /**
+     * GMs own every actor, so for them we only follow the actors without a player owner
+     */
+    #isOwnedCombatant(actor: ActorPF2e) {
+        return game.user.isGM ? !actor.hasPlayerOwner : actor.isOwner;
+    }
+
+    /**
+     * the user's assigned character if it has a token on the scene, then the first
+     * party member (the leader) owned by the user with a token on the scene
+     */
+    #getPartyActor(): ActorPF2e | null {
+        const userActor = game.user.character;
+        const members = (game.actors.party?.members ?? []).filter((actor) =>
+            this.isValidActor(actor)
+        );
+        const isOnScene = (actor: ActorPF2e) => {
+            return canvas.ready && actor.getActiveTokens(false, true).length > 0;
+        };
+
+        if (this.isValidActor(userActor) && isOnScene(userActor)) {
+            return userActor;
+        }
+
+        return members.find(isOnScene) ?? null;
+    }
+
+    cycleActor(direction: 1 | -1) {
+        const actors = this.#getCycleActors();
+        if (!actors.length) return;
+
+        const index = actors.findIndex((actor) => actor.uuid === this.actor?.uuid);
+        let nextIndex = (index + direction + actors.length) % actors.length;
+        if (index === -1) nextIndex = direction > 0 ? 0 : actors.length - 1;
+
+        return this.setActor(actors[nextIndex], { skipHistory: true });
+    }
+
+    #getCycleActors(): ActorPF2e[] {
+        const actors = (() => {
+            switch (this.getSetting("cycleActors")) {
+                case "party": {
+                    return game.actors.party?.members ?? [];
+                }
+
+                case "scene": {
+                    return canvas.ready ? canvas.tokens.placeables.map((token) => token.actor) : [];
+                }
+
+                default: {
+                    return this.actorsHistory;
+                }
+            }
+        })();
+
+        return R.pipe(
+            actors as Maybe<ActorPF2e>[],
+            R.filter((actor): actor is ActorPF2e => this.isValidActor(actor)),
+            R.uniqueBy((actor) => actor.uuid)
+        );
     }
 
     isCurrentActor(actor: Maybe<ActorPF2e>, flash = false): actor is PersistentHudActor {
@@ -738,6 +1191,29 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         });
     }
 
+    shortcutsPath(pageId: string = this.currentPage.id, userId: string = game.user.id) {
+        return pageId === DEFAULT_PAGE
+            ? `persistent.shortcuts.${userId}`
+            : `persistent.pageShortcuts.${userId}.${pageId}`;
+    }
+
+    setShortcutPage(pageId: string) {
+        const worldActor = this.worldActor;
+        if (!worldActor || pageId === this.currentPage.id) return;
+        return setFlag(worldActor, "persistent.pages", game.user.id, "current", pageId);
+    }
+
+    cycleShortcutPage(direction: 1 | -1) {
+        const pages = this.shortcutPages;
+        if (!this.actor || pages.length < 2) return;
+
+        const currentId = this.currentPage.id;
+        const index = pages.findIndex((page) => page.id === currentId);
+        const page = pages.at((index + direction) % pages.length)!;
+
+        return this.setShortcutPage(page.id);
+    }
+
     getShortcut<T extends Shortcut>(
         groupIndex: Maybe<number | string>,
         index: Maybe<number | string>
@@ -745,6 +1221,62 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         return this.#shortcuts[`${groupIndex}-${index}`] as T | undefined;
     }
 
+    /**
+     * each group owns 4 slots, so a keybind always targets the same group & index
+     * no matter if previous groups are empty or attacks
+     */
+    useShortcut(slot: number, keyboardEvent: KeyboardEvent) {
+        const groupIndex = Math.floor(slot / 4);
+        const index = slot % 4;
+        const selector = `[data-group-index="${groupIndex}"][data-index="${index}"]`;
+        const shortcutElement = this.actor
+            ? htmlQuery(this.mainElement, `.stretch .shortcuts .shortcut${selector}`)
+            : undefined;
+
+        return this.#useShortcutElement(shortcutElement, keyboardEvent);
+    }
+
+    #useShortcutElement(
+        shortcutElement: Maybe<HTMLElement>,
+        triggerEvent: KeyboardEvent | MouseEvent
+    ) {
+        if (
+            !shortcutElement ||
+            shortcutElement.classList.contains("empty") ||
+            shortcutElement.classList.contains("disabled")
+        )
+            return false;
+
+        const event = new MouseEvent("click", {
+            shiftKey: triggerEvent.shiftKey,
+            ctrlKey: triggerEvent.ctrlKey,
+            metaKey: triggerEvent.metaKey,
+        });
+
+        if (!shortcutElement.classList.contains("attack")) {
+            this.#onShortcutClick(event, shortcutElement);
+            return true;
+        }
+
+        const mapIndex = getMapIndex(this.actor!);
+        const useVariant = shortcutElement.classList.contains("use-variant");
+        const rows = shortcutElement.querySelectorAll(".variants:not(.versatiles)");
+        const row = useVariant ? rows[rows.length - 1] : rows[0];
+        const attackElement = row?.querySelector<HTMLElement>(
+            [
+                `[data-action='strike-attack'][data-variant-index='${mapIndex}']`,
+                `[data-action='blast-attack'][data-map-increases='${mapIndex}']`,
+            ]
+                .map((selector) => `${selector}:not([data-disabled])`)
+                .join(", ")
+        );
+
+        if (!attackElement) return false;
+
+        this.#onShortcutAction(event, shortcutElement, attackElement);
+        return true;
+    }
+
     getShortcutFromElement<T extends Shortcut>(el: HTMLElement) {
         const { groupIndex, index } = el.dataset;
         return this.getShortcut<T>(groupIndex, index);
@@ -805,103 +1337,622 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         }
     }
 
+    #onUpdateCombatant(combatant: CombatantPF2e) {
+        const checklist = this.#turnChecklist;
+
+        // the end of turn may be processed after the turn already changed
+        if (checklist?.phase === "end" && checklist.combatantId === combatant.id) {
+            this.render({ parts: ["checklist"] });
+        }
+    }
+
+    /**
+     * the vehicle button of the menu follows the tokens moving on and off vehicles
+     */
+    #onVehicleChange(token: TokenDocumentPF2e) {
+        const actor = this.actor;
+        const tokenActor = token.actor;
+        if (!actor || !tokenActor) return;
+
+        if (tokenActor === actor || tokenActor.isOfType("vehicle")) {
+            this.#renderMenuDebounce();
+        }
+    }
+
     #onDeleteCombat() {
-        if (!this.savedActor && this.getSetting("autoSet") === "combat") {
+        const autoSet = this.getSetting("autoSet");
+
+        if (this.#turnChecklist) {
+            this.#turnChecklist = null;
+            this.render({ parts: ["checklist"] });
+        }
+
+        if (!R.isEmpty(this.#actionsSpent)) {
+            this.#actionsSpent = {};
+            this.render({ parts: ["portrait"] });
+        }
+
+        if (!this.savedActor && (autoSet === "combat" || autoSet === "ownedCombat")) {
             this.setActor(null, { skipSave: true, force: true });
         } else if (this.#hasStances) {
             this.render({ parts: ["main"] });
         }
-    }
+    }
+
+    #toggleCombatTurnHook(enabled = this.enabled) {
+        const autoSet = this.getSetting("autoSet");
+        const isCombatAutoSet = autoSet === "combat" || autoSet === "ownedCombat";
+
+        this.#combatTurnHook.toggle(
+            enabled &&
+                (isCombatAutoSet ||
+                    this.getSetting("turnChecklist") ||
+                    this.getSetting("actionTracker"))
+        );
+
+        this.#updateCombatantHook.toggle(enabled && this.getSetting("turnChecklist"));
+    }
+
+    #onCombatTurnChange(combat: EncounterPF2e, prior: CombatTurnData) {
+        const autoSet = this.getSetting("autoSet");
+
+        if (!this.savedActor && (autoSet === "combat" || autoSet === "ownedCombat")) {
+            const actor = this.#getAutoSetActor(autoSet);
+            this.setActor(actor, { skipSave: true });
+        }
+
+        if (this.getSetting("actionTracker")) {
+            this.#resetActionsSpent(combat.combatant?.actor);
+        }
+
+        if (this.getSetting("turnChecklist")) {
+            this.#updateTurnChecklist(combat, prior);
+        }
+    }
+
+    #resetActionsSpent(actor: Maybe<ActorPF2e>) {
+        if (!actor || !this.#actionsSpent[actor.uuid]) return;
+
+        delete this.#actionsSpent[actor.uuid];
+
+        if (actor === this.actor) {
+            this.render({ parts: ["portrait"] });
+        }
+    }
+
+    /**
+     * actions used without a self-effect only post their description
+     * which can't be told apart from sharing it in the chat
+     */
+    trackActionUse(item: FeatPF2e | AbilityItemPF2e) {
+        const cost = toActionCost(getCost(item.actionCost));
+        if (!item.actor || cost === undefined || !this.getSetting("actionTracker")) return;
+
+        this.#spendActions(item.actor, cost);
+    }
+
+    #onCreateChatMessage(message: ChatMessagePF2e, options: object, userId: string) {
+        const actor = message.actor;
+        if (userId !== game.user.id || !actor) return;
+
+        const cost = getMessageActionCost(message);
+        if (cost === undefined) return;
+
+        this.#spendActions(actor, cost);
+    }
+
+    #spendActions(actor: ActorPF2e, cost: number | "reaction") {
+        const combat = game.combat;
+        if (!combat?.started) return;
+
+        // reactions are usually spent outside of the actor's own turn
+        const isTurn = combat.combatant?.actor === actor;
+        if (cost === "reaction" ? !actor.combatant : !isTurn) return;
+
+        const spent = (this.#actionsSpent[actor.uuid] ??= { actions: 0, reaction: false });
+
+        if (cost === "reaction") {
+            spent.reaction = true;
+        } else {
+            spent.actions += cost;
+        }
+
+        if (actor === this.actor) {
+            this.render({ parts: ["portrait"] });
+        }
+    }
+
+    #getActionEconomy(actor: ActorPF2e): ActionEconomy {
+        const conditions = actor.conditions.active;
+        const getValue = (slug: string) => {
+            return conditions.find((condition) => condition.slug === slug)?.value ?? 0;
+        };
+
+        const quickened = conditions.some((condition) => condition.slug === "quickened") ? 1 : 0;
+        const lost = Math.max(getValue("slowed"), getValue("stunned"));
+        const total = Math.max(ACTIONS_PER_TURN + quickened - lost, 0);
+        const spent = this.#actionsSpent[actor.uuid] ?? { actions: 0, reaction: false };
+
+        return {
+            actions: R.range(0, total).map((index) => index < spent.actions),
+            reaction: spent.reaction,
+            tooltip: localize("persistent.portrait.economy.tooltip", {
+                actions: Math.max(total - spent.actions, 0),
+                total,
+            }),
+        };
+    }
+
+    #updateTurnChecklist(combat: EncounterPF2e, prior: CombatTurnData) {
+        const actor = this.actor;
+        const combatant = combat.combatant;
+        const priorCombatant = combat.combatants.get(prior.combatantId ?? "");
+
+        if (actor && combatant && combatant.actor === actor) {
+            this.#turnChecklist = createTurnChecklist("start", combatant, combat.round);
+        } else if (actor && priorCombatant && priorCombatant.actor === actor) {
+            this.#turnChecklist = createTurnChecklist("end", priorCombatant, prior.round);
+        } else {
+            this.#turnChecklist = null;
+        }
+
+        this.render({ parts: ["checklist"] });
+    }
+
+    #onPartyChange(document?: unknown) {
+        if (this.savedActor) return;
+        if (document instanceof Actor && !document.isOfType("party")) return;
+
+        const actor = this.#getPartyActor();
+        if (actor === this.actor) return;
+
+        this.setActor(actor, { skipSave: true });
+    }
+
+    #onControlToken() {
+        if (this.savedActor) return;
+
+        const token = R.only(canvas.tokens.controlled);
+
+        this.setActor(token?.actor ?? null, { token, skipSave: true });
+    }
+
+    #onGroupControlToken() {
+        if (this.getUserSetting("group")?.length) return;
+        this.render({ parts: ["group"] });
+    }
+
+    #onRenderHotbar() {
+        this.render({ parts: ["menu"] });
+    }
+
+    setSelectedToken() {
+        const tokens = canvas.tokens.controlled;
+        const token = tokens[0];
+
+        if (tokens.length !== 1 || !this.isValidActor(token.actor)) {
+            return warn("persistent.error.selectOne");
+        }
+
+        this.setActor(token.actor, { token });
+    }
+
+    #prepareMenuContext(context: PersistentContext, options: PersistentRenderOptions): MenuContext {
+        const setTooltipParts = [["setActor", "leftClick"]];
+        const hasSavedActor = !!this.savedActor;
+        if (hasSavedActor) setTooltipParts.push(["unsetActor", "rightClick"]);
+
+        const setActorTooltip = setTooltipParts
+            .map(([key, click]) => {
+                let msg = localize("persistent.menu", key);
+                if (hasSavedActor) msg = `${localize(click)} ${msg}`;
+                return `<div>${msg}</div>`;
+            })
+            .join("");
+
+        const groupSize = this.getUserSetting("group")?.length ?? 0;
+        const groupTooltip = [
+            `${localize("leftClick")} ${localize("persistent.menu.group.toggle")}`,
+            `${localize("rightClick")} ${localize("persistent.menu.group.save")}`,
+            groupSize
+                ? localize("persistent.menu.group.saved", { nb: groupSize })
+                : localize("persistent.menu.group.selection"),
+        ]
+            .map((msg) => `<div>${msg}</div>`)
+            .join("");
+
+        const history = this.actorsHistory.map((actor) => ({
+            uuid: actor.uuid,
+            name: actor.name,
+            img: actor.img,
+            isCurrent: actor === this.actor,
+        }));
+
+        const vehicle = context.actor && getVehicleToken(context.actor);
+        const vehicleTooltip = vehicle
+            ? localize("persistent.menu.vehicle", { name: vehicle.document.name })
+            : undefined;
+
+        return {
+            ...context,
+            isGM: game.user.isGM,
+            vehicle: vehicleTooltip,
+            history,
+            hasSavedActor,
+            setActorTooltip,
+            multiActor: options.multiActor,
+            groupTooltip,
+            hotbarLocked: ui.hotbar.locked,
+        };
+    }
+
+    #activateMenuListeners(html: HTMLElement) {
+        const actor = this.actor;
+
+        addListener(html, "[data-action='select-actor']", "contextmenu", () => {
+            this.setActor(null, { force: true });
+        });
+
+        addListener(html, "[data-action='toggle-multi-actor']", "contextmenu", () => {
+            this.saveGroup();
+        });
+
+        addListenerAll(html, "[data-history-uuid]", (event, el) => {
+            const actor = fromUuidSync<ActorPF2e>(el.dataset.historyUuid ?? "");
+            if (this.isValidActor(actor)) this.setActor(actor);
+        });
+
+        addListenerAll(html, "[data-action]", (event, el) => {
+            const action = el.dataset.action as MenuActionEvent;
+
+            switch (action) {
+                case "toggle-users": {
+                    this.setSetting("showUsers", !this.getSetting("showUsers"));
+                    break;
+                }
+                case "open-macros": {
+                    ui.macros.renderPopout(true);
+                    break;
+                }
+                case "toggle-hotbar-lock": {
+                    ui.hotbar._toggleHotbarLock();
+                    break;
+                }
+                case "open-sheet": {
+                    actor?.sheet.render(true);
+                    break;
+                }
+                case "select-actor": {
+                    this.setSelectedToken();
+                    break;
+                }
+                case "toggle-clean": {
+                    this.setSetting("cleanPortrait", !this.getSetting("cleanPortrait"));
+                    break;
+                }
+                case "toggle-multi-actor": {
+                    this.setSetting("multiActor", !this.getSetting("multiActor"));
+                    break;
+                }
+                case "open-vehicle-hud": {
+                    const vehicle = actor && getVehicleToken(actor);
+                    if (vehicle) hud.token.setToken(vehicle);
+                    break;
+                }
+            }
+        });
+    }
+
+    async saveGroup() {
+        const uuids = R.pipe(
+            canvas.tokens.controlled,
+            R.map((token) => token.actor),
+            R.filter((actor): actor is ActorPF2e => this.isValidActor(actor)),
+            R.map((actor) => actor.uuid),
+            R.unique()
+        );
+
+        await this.setUserSetting("group", uuids);
+        return this.render({ parts: ["menu", "group"] });
+    }
+
+    /**
+     * group actors are registered to re-render the HUD
+     * the current actor is left alone, it is handled by `setActor`
+     */
+    #groupCleanup() {
+        const actor = this.actor;
+
+        for (const groupActor of this.#groupApps) {
+            if (groupActor === actor || groupActor === actor?.token?.baseActor) continue;
+            delete groupActor.apps[this.id];
+        }
+
+        this.#groupApps.clear();
+    }
+
+    async #prepareGroupContext(
+        context: PersistentContext,
+        options: PersistentRenderOptions
+    ): Promise<GroupContext> {
+        const nbSlots = this.getSetting("shortcutSlots");
+        const strips: GroupStrip[] = [];
+
+        this.#groupCleanup();
+
+        for (const actor of this.groupActors) {
+            const worldActor = actor.token?.baseActor ?? actor;
+            const pageId = this.#getCurrentPage(worldActor).id;
+            const shortcutsData = getFlag<UserShortcutsData>(
+                worldActor,
+                this.shortcutsPath(pageId)
+            );
+            const cached: CreateShortcutCache = {};
+            const shortcuts: Shortcut[] = [];
+
+            actor.apps[this.id] = this;
+            this.#groupApps.add(actor);
+
+            for (const [groupIndex, group] of R.entries(shortcutsData ?? {})) {
+                if (Number(groupIndex) >= nbSlots) continue;
+
+                for (const shortcutData of R.values(group)) {
+                    const shortcut = await this.#createShortcut(
+                        shortcutData,
+                        cached,
+                        false,
+                        actor
+                    );
+
+                    if (!shortcut.isEmpty) {
+                        shortcuts.push(shortcut);
+                    }
+                }
+            }
+
+            const effects = [
+                ...actor.conditions.active,
+                ...actor.itemTypes.effect,
+                ...(actor.itemTypes.affliction ?? []),
+            ];
+
+            strips.push({
+                uuid: actor.uuid,
+                name: actor.name,
+                img: getFlag<AvatarData>(worldActor, "avatar")?.src ?? actor.img,
+                isFocused: actor === this.actor,
+                health: getHealth(actor),
+                shortcuts: R.sortBy(
+                    shortcuts,
+                    (shortcut) => Number(shortcut.groupIndex),
+                    (shortcut) => Number(shortcut.index)
+                ),
+                effects: effects.map((effect) => ({
+                    name: effect.name,
+                    img: effect.img,
+                    value: effect.badge?.value,
+                })),
+            });
+        }
+
+        return {
+            ...context,
+            strips,
+        };
+    }
+
+    #activateGroupListeners(html: HTMLElement) {
+        const getActor = (el: HTMLElement) => {
+            const uuid = htmlClosest(el, "[data-actor-uuid]")?.dataset.actorUuid ?? "";
+            const actor = fromUuidSync<ActorPF2e>(uuid);
+            return this.isValidActor(actor) ? actor : null;
+        };
+
+        const focusActor = async (actor: ActorPF2e) => {
+            if (actor !== this.actor) {
+                await this.setActor(actor, { skipSave: true });
+            }
+        };
+
+        for (const healthElement of html.querySelectorAll<HTMLElement>(".strip .health")) {
+            const actor = getActor(healthElement);
+            if (actor) addStatsHeaderListeners(actor, healthElement);
+        }
 
-    #onCombatTurnChange() {
-        if (this.savedActor) return;
+        addListenerAll(html, ".strip", (event, el) => {
+            const actor = getActor(el);
+            if (!actor || (event.target as HTMLElement).closest("input")) return;
 
-        const combatant = game.combat?.combatants.get(game.combat?.current.combatantId ?? "");
-        const actor = this.isValidActor(combatant?.actor) ? combatant.actor : null;
+            focusActor(actor);
+        });
 
-        this.setActor(actor, { skipSave: true });
-    }
+        for (const stripElement of html.querySelectorAll<HTMLElement>(".strip")) {
+            addEffectDropListener(stripElement, () => getActor(stripElement));
+        }
 
-    #onControlToken() {
-        if (this.savedActor) return;
+        addListenerAll(html, "[data-action='use-shortcut']", async (event, el) => {
+            event.stopPropagation();
 
-        const token = R.only(canvas.tokens.controlled);
+            const actor = getActor(el);
+            if (!actor) return;
 
-        this.setActor(token?.actor ?? null, { token, skipSave: true });
-    }
+            await focusActor(actor);
 
-    #onRenderHotbar() {
-        this.render({ parts: ["menu"] });
-    }
+            const { groupIndex, index } = el.dataset;
+            const selector = `[data-group-index="${groupIndex}"][data-index="${index}"]`;
+            const shortcutElement = htmlQuery(
+                this.mainElement,
+                `.stretch .shortcuts .shortcut${selector}`
+            );
 
-    setSelectedToken() {
-        const tokens = canvas.tokens.controlled;
-        const token = tokens[0];
+            this.#useShortcutElement(shortcutElement, event);
+        });
+    }
 
-        if (tokens.length !== 1 || !this.isValidActor(token.actor)) {
-            return warn("persistent.error.selectOne");
+    #prepareChecklistContext(
+        context: PersistentContext,
+        options: PersistentRenderOptions
+    ): ChecklistContext {
+        const actor = this.actor;
+        const checklist = this.#turnChecklist;
+        if (!actor || !checklist || checklist.actorUuid !== actor.uuid) {
+            return { ...context, title: "", items: [] };
         }
 
-        this.setActor(token.actor, { token });
-    }
+        const items: ChecklistItem[] = [];
+        const effects = actor.itemTypes.effect;
+        const action = (slug: ChecklistAction, icon: string) => ({
+            slug,
+            icon,
+            label: localize("persistent.checklist.action", slug),
+        });
 
-    #prepareMenuContext(context: PersistentContext, options: PersistentRenderOptions): MenuContext {
-        const setTooltipParts = [["setActor", "leftClick"]];
-        const hasSavedActor = !!this.savedActor;
-        if (hasSavedActor) setTooltipParts.push(["unsetActor", "rightClick"]);
+        if (checklist.phase === "end") {
+            // the system flags the combatant once it rolled the persistent damage and decreased
+            // frightened, which only happens when an active GM processed the end of the turn
+            const combatant = game.combat?.combatants.get(checklist.combatantId);
+            const processed = combatant?.flags.pf2e?.roundOfLastTurnEnd === checklist.round;
+
+            for (const condition of actor.conditions.active) {
+                const label = `${condition.name} ${condition.value ?? ""}`.trim();
+
+                if (condition.slug === "persistent-damage") {
+                    const rolled = processed || checklist.rolled.includes(condition.id);
+
+                    items.push({
+                        id: condition.id,
+                        label,
+                        img: condition.img,
+                        actions: R.filter(
+                            [
+                                !rolled && action("roll-persistent", "fa-solid fa-dice-d20"),
+                                action("recover-persistent", "fa-solid fa-kit-medical"),
+                            ],
+                            R.isTruthy
+                        ),
+                    });
+                } else if (condition.slug === "frightened") {
+                    items.push({
+                        id: condition.id,
+                        label,
+                        img: condition.img,
+                        actions: [
+                            processed
+                                ? action("check", "fa-solid fa-check")
+                                : action("decrease-condition", "fa-solid fa-minus"),
+                        ],
+                    });
+                }
+            }
 
-        const setActorTooltip = setTooltipParts
-            .map(([key, click]) => {
-                let msg = localize("persistent.menu", key);
-                if (hasSavedActor) msg = `${localize(click)} ${msg}`;
-                return `<div>${msg}</div>`;
-            })
-            .join("");
+            const removeExpired = game.settings.get("pf2e", "automation.removeExpiredEffects");
 
-        return {
+            for (const effect of removeExpired ? [] : effects) {
+                const { duration } = effect.system;
+                if (duration.expiry !== "turn-end" || !effect.remainingDuration.expired) continue;
+
+                items.push({
+                    id: effect.id,
+                    label: effect.name,
+                    img: effect.img,
+                    actions: [action("remove-effect", "fa-solid fa-trash")],
+                });
+            }
+        } else {
+            for (const effect of effects) {
+                if (!effect.system.duration.sustained) continue;
+
+                items.push({
+                    id: effect.id,
+                    label: effect.name,
+                    img: effect.img,
+                    actions: [action("sustain-effect", "fa-solid fa-hourglass-start")],
+                });
+            }
+
+            items.push({
+                id: "reaction",
+                label: localize("persistent.checklist.reaction"),
+                icon: "fa-solid fa-reply",
+                actions: [action("check", "fa-solid fa-check")],
+            });
+        }
+
+        const data: ChecklistContext = {
             ...context,
-            hasSavedActor,
-            setActorTooltip,
-            hotbarLocked: ui.hotbar.locked,
+            title: localize("persistent.checklist.title", checklist.phase),
+            items: items.map((item) => ({
+                ...item,
+                resolved: checklist.resolved.includes(item.id),
+            })),
         };
+
+        return data;
     }
 
-    #activateMenuListeners(html: HTMLElement) {
+    #activateChecklistListeners(html: HTMLElement) {
         const actor = this.actor;
+        if (!actor) return;
 
-        addListener(html, "[data-action='select-actor']", "contextmenu", () => {
-            this.setActor(null, { force: true });
+        addListener(html, "[data-action='dismiss-checklist']", () => {
+            this.#turnChecklist = null;
+            this.render({ parts: ["checklist"] });
         });
 
-        addListenerAll(html, "[data-action]", (event, el) => {
-            const action = el.dataset.action as MenuActionEvent;
+        addListenerAll(html, "[data-checklist-id] [data-action]", async (event, el) => {
+            const action = el.dataset.action as ChecklistAction;
+            const id = htmlClosest(el, "[data-checklist-id]")?.dataset.checklistId ?? "";
+            const item = actor.conditions.get(id) ?? actor.items.get(id);
+
+            const checklist = this.#turnChecklist;
 
             switch (action) {
-                case "toggle-users": {
-                    this.setSetting("showUsers", !this.getSetting("showUsers"));
-                    break;
-                }
-                case "open-macros": {
-                    ui.macros.renderPopout(true);
-                    break;
+                case "roll-persistent": {
+                    if (!item?.isOfType("condition")) return;
+
+                    const token = getFirstActiveToken(actor, false, true);
+                    await item.onEndTurn({ token });
+
+                    // recovery still needs to be rolled
+                    checklist?.rolled.push(id);
+                    this.render({ parts: ["checklist"] });
+                    return;
                 }
-                case "toggle-hotbar-lock": {
-                    ui.hotbar._toggleHotbarLock();
+
+                case "recover-persistent": {
+                    if (!item?.isOfType("condition")) return;
+                    await item.rollRecovery();
                     break;
                 }
-                case "open-sheet": {
-                    actor?.sheet.render(true);
+
+                case "decrease-condition": {
+                    if (!item?.isOfType("condition")) return;
+                    await actor.decreaseCondition(item);
                     break;
                 }
-                case "select-actor": {
-                    this.setSelectedToken();
+
+                case "remove-effect": {
+                    await item?.delete();
                     break;
                 }
-                case "toggle-clean": {
-                    this.setSetting("cleanPortrait", !this.getSetting("cleanPortrait"));
+
+                case "sustain-effect": {
+                    if (!item?.isOfType("effect")) return;
+                    await item.update({
+                        "system.expired": false,
+                        "system.start": {
+                            value: game.time.worldTime,
+                            initiative: game.combat?.combatant?.initiative ?? null,
+                        },
+                    });
                     break;
                 }
             }
+
+            if (!checklist) return;
+
+            checklist.resolved.push(id);
+            this.render({ parts: ["checklist"] });
         });
     }
 
@@ -941,11 +1992,49 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         const conditions = actor.conditions.active;
         const afflictions = actor.itemTypes.affliction ?? [];
 
-        const descriptions = {
-            afflictions: await getEnrichedDescriptions(afflictions),
-            conditions: await getEnrichedDescriptions(conditions),
-            effects: await getEnrichedDescriptions(effects),
-        };
+        const grouped = this.getSetting("groupEffects");
+        const groupedEffects: [string, EffectsGroupItem[]][] = grouped
+            ? R.pipe(
+                  [...conditions, ...effects, ...afflictions],
+                  R.groupBy(getEffectGroup),
+                  (groups) => EFFECTS_GROUPS.map((slug) => [slug, groups[slug] ?? []])
+              )
+            : [
+                  ["afflictions", afflictions],
+                  ["conditions", conditions],
+                  ["effects", effects],
+              ];
+
+        const sort = this.getSetting("sortEffects");
+        const collapsed = this.getSetting("collapsedEffects");
+        const expiring = getExpiringEffects(actor, effects);
+        const groups: EffectsGroup[] = [];
+
+        for (const [slug, items] of groupedEffects) {
+            if (!items.length) continue;
+
+            const sorted = sortEffects(items, sort);
+
+            const header =
+                grouped && R.isIncludedIn(slug, EFFECTS_GROUPS)
+                    ? {
+                          label: localize("persistent.effects.group", slug),
+                          icon: EFFECTS_GROUPS_ICONS[slug],
+                      }
+                    : undefined;
+
+            groups.push({
+                slug,
+                header,
+                collapsed: !!header && collapsed.includes(slug),
+                effects: sorted,
+                descriptions: await getEnrichedDescriptions(sorted),
+                expiring: sorted.map((effect) => {
+                    const expiry = expiring.get(effect.id);
+                    return expiry && localize("persistent.effects.expiring", expiry);
+                }),
+            });
+        }
 
         const instructions = this.getSetting("shiftEffects")
             ? this.effectsShiftInstructions
@@ -953,10 +2042,7 @@ class PF2eHudPersistent extends makeAdvancedHUD(
 
         const data: EffectsContext = {
             ...context,
-            afflictions,
-            conditions,
-            descriptions,
-            effects,
+            groups,
             actor,
             instructions,
             user: { isGM: context.isGM },
@@ -974,7 +2060,10 @@ class PF2eHudPersistent extends makeAdvancedHUD(
             return actor.conditions.get(itemId) ?? actor?.items.get(itemId);
         };
 
-        addListenerAll(html, ".effect-item[data-item-id] .icon", "mousedown", (event, el) => {
+        const iconSelector = ".effect-item[data-item-id] .icon";
+
+        // left click is handled on click so the icon can still be dragged
+        const onIconEvent = (event: MouseEvent, el: HTMLElement) => {
             if (![0, 2].includes(event.button)) return;
 
             if (!event.shiftKey && this.getSetting("shiftEffects")) return;
@@ -999,6 +2088,17 @@ class PF2eHudPersistent extends makeAdvancedHUD(
                     this.render();
                 }
             }
+        };
+
+        addListenerAll(html, iconSelector, "click", onIconEvent);
+
+        addListenerAll(html, iconSelector, "mousedown", (event, el) => {
+            if (event.button === 2) onIconEvent(event, el);
+        });
+
+        addListenerAll(html, iconSelector, "dragstart", (event, el) => {
+            const effect = getEffect(el);
+            if (effect) setEffectDragData(event, el, effect);
         });
 
         addListenerAll(html, "[data-action=recover-persistent-damage]", (event, el) => {
@@ -1023,6 +2123,16 @@ class PF2eHudPersistent extends makeAdvancedHUD(
             const effect = getEffect(el);
             effect?.toMessage();
         });
+
+        addListenerAll(html, "[data-action=toggle-effects-group]", (event, el) => {
+            const slug = htmlClosest(el, "[data-group]")?.dataset.group ?? "";
+            const collapsed = this.getSetting("collapsedEffects").slice();
+
+            if (collapsed.includes(slug)) collapsed.findSplice((x) => x === slug);
+            else collapsed.push(slug);
+
+            this.setSetting("collapsedEffects", collapsed);
+        });
     }
 
     #preparePortraitContext(
@@ -1038,6 +2148,7 @@ class PF2eHudPersistent extends makeAdvancedHUD(
             ...getStatsHeaderExtras(actor, this),
             avatar: actor.img,
             name: actor.name,
+            economy: this.getSetting("actionTracker") ? this.#getActionEconomy(actor) : undefined,
         };
 
         return data;
@@ -1049,10 +2160,25 @@ class PF2eHudPersistent extends makeAdvancedHUD(
 
         addStatsHeaderListeners(actor, html);
 
+        addEffectDropListener(html, () => this.actor);
+
         addListener(html, "[data-action='edit-avatar']", () => {
             editAvatar(actor);
         });
 
+        addListenerAll(html, ".economy [data-action]", (event, el) => {
+            const spent = (this.#actionsSpent[actor.uuid] ??= { actions: 0, reaction: false });
+
+            if (el.dataset.action === "toggle-reaction") {
+                spent.reaction = !spent.reaction;
+            } else {
+                const index = Number(el.dataset.index);
+                spent.actions = index < spent.actions ? index : index + 1;
+            }
+
+            this.render({ parts: ["portrait"] });
+        });
+
         if (game.ready) {
             requestAnimationFrame(() => {
                 this.#setupAvatar(html);
@@ -1114,13 +2240,15 @@ class PF2eHudPersistent extends makeAdvancedHUD(
 
         const worldActor = this.worldActor!;
         const isNPC = actor.isOfType("npc");
-        const noShortcuts = !getFlag(worldActor, "persistent.shortcuts", game.user.id);
+        const noShortcuts = !getFlag(worldActor, this.shortcutsPath());
         const autoFill = isNPC && noShortcuts && this.getSetting("autoFillNpc");
 
         const shortcutsOwner = (() => {
             if (!isGM || isNPC || !noShortcuts || !this.getSetting("ownerShortcuts")) return;
             const owner = getOwner(actor, false)?.id;
-            return owner && getFlag(worldActor, "persistent.shortcuts", owner) ? owner : undefined;
+            return owner && getFlag(worldActor, this.shortcutsPath(DEFAULT_PAGE, owner))
+                ? owner
+                : undefined;
         })();
 
         this.#hasStances = false;
@@ -1161,12 +2289,38 @@ class PF2eHudPersistent extends makeAdvancedHUD(
             });
         }
 
+        const pages = (() => {
+            const list = this.shortcutPages;
+            const current = this.currentPage;
+            const index = list.findIndex((page) => page.id === current.id);
+
+            const tooltip = list
+                .map((page) => {
+                    const css = page.id === current.id ? " class='active'" : "";
+                    return `<li${css}>${Handlebars.escapeExpression(page.name)}</li>`;
+                })
+                .join("");
+
+            return {
+                current,
+                index: index + 1,
+                total: list.length,
+                tooltip: `<h4>${localize("persistent.main.pages.title")}</h4><ol>${tooltip}</ol>`,
+            };
+        })();
+
+        const staleShortcuts = this.isVirtual
+            ? 0
+            : getStaleShortcuts(actor, getFlag(worldActor, this.shortcutsPath()) ?? {}).length;
+
         const data: MainContext = {
             ...context,
             ...getAdvancedStats(actor, this),
             sidebars: getSidebars(actor, this.sidebar?.key),
             shortcutGroups,
             noShortcuts,
+            staleShortcuts,
+            pages,
             isVirtual: this.isVirtual,
             isAutoFill: autoFill,
             isOwnerShortcuts: !!shortcutsOwner,
@@ -1185,11 +2339,41 @@ class PF2eHudPersistent extends makeAdvancedHUD(
 
         addStatsAdvancedListeners(this.actor, html);
         addSidebarsListeners(this, html);
+        activateMapVariants(html, actor);
+
+        addStrikesPreviewListeners(html, (el) => {
+            const shortcutElement = htmlClosest(el, ".shortcut");
+            const shortcut = shortcutElement
+                ? this.getShortcutFromElement<StrikeShortcut>(shortcutElement)
+                : null;
+            if (!shortcut?.strike || shortcut.isEmpty) return null;
+            return getStrikeVariant(shortcut.strike, el);
+        });
+
+        addBlastsPreviewListeners(html, (el) => {
+            const shortcutElement = htmlClosest(el, ".shortcut");
+            const shortcut = shortcutElement
+                ? this.getShortcutFromElement<BlastShortcut>(shortcutElement)
+                : null;
+            return shortcut?.isEmpty ? null : shortcut?.blast;
+        });
+
+        addListenerAll(html, ".shortcut.spell", "mouseenter", async (event, el) => {
+            const shortcut = this.getShortcutFromElement<SpellShortcut>(el);
+            const spell = shortcut?.item;
+            const preview = spell ? await getSpellPreviewTooltip(spell) : undefined;
+
+            setPreviewTooltip(el, preview);
+        });
 
         addListener(html, "[data-action='toggle-effects']", () => {
             this.setSetting("showEffects", !this.getSetting("showEffects"));
         });
 
+        addListener(html, ".stretch .shortcuts", "wheel", (event) => {
+            this.#cycleShortcutPageDebounce(event.deltaY > 0 ? 1 : -1);
+        });
+
         addListenerAll(html, ".stretch .shotcut-menus [data-action]", async (event, el) => {
             const action = el.dataset.action as ShortcutMenusAction;
 
@@ -1208,13 +2392,38 @@ class PF2eHudPersistent extends makeAdvancedHUD(
                     const confirm = await confirmAction("delete");
                     if (!confirm) return;
 
-                    return unsetFlag(worldActor, "persistent.shortcuts", game.user.id);
+                    return unsetFlag(worldActor, this.shortcutsPath());
+                }
+
+                case "edit-pages": {
+                    return this.#editShortcutPages();
+                }
+
+                case "export-shortcuts": {
+                    return exportShortcuts(actor, this.#shortcutData);
+                }
+
+                case "import-shortcuts": {
+                    const shortcuts = await importShortcuts(actor);
+                    if (!shortcuts) return;
+
+                    if (!R.isEmpty(this.#shortcutData)) {
+                        const confirm = await confirmAction("overwrite");
+                        if (!confirm) return;
+                    }
+
+                    this.#shortcutData = shortcuts;
+                    return this.#overrideShortcutData();
                 }
 
                 case "fill-shortcuts": {
                     const confirm = await confirmAction("fill");
                     if (!confirm) return;
 
+                    if (actor.isOfType("character")) {
+                        return this.#fillCharacterShortcuts(false);
+                    }
+
                     this.#shortcutData = {};
                     const cached: ShortcutCache = {};
                     const nbSlots = this.getSetting("shortcutSlots");
@@ -1240,10 +2449,28 @@ class PF2eHudPersistent extends makeAdvancedHUD(
                     return this.#overrideShortcutData();
                 }
 
+                case "repair-shortcuts": {
+                    return this.#repairShortcuts();
+                }
+
+                case "edit-fill-rules": {
+                    return this.#editAutoFillRules();
+                }
+
+                case "fill-gaps": {
+                    const confirm = await confirmAction("gaps");
+                    if (!confirm) return;
+
+                    return this.#fillCharacterShortcuts(true);
+                }
+
                 case "copy-owner-shortcuts": {
                     const owner = getOwner(actor, false)?.id;
                     const userShortcuts = owner
-                        ? getFlag<UserShortcutsData>(worldActor, "persistent.shortcuts", owner)
+                        ? getFlag<UserShortcutsData>(
+                              worldActor,
+                              this.shortcutsPath(DEFAULT_PAGE, owner)
+                          )
                         : undefined;
 
                     if (!userShortcuts || foundry.utils.isEmpty(userShortcuts)) {
@@ -1253,13 +2480,10 @@ class PF2eHudPersistent extends makeAdvancedHUD(
                     const confirm = await confirmAction("owner");
                     if (!confirm) return;
 
-                    await unsetFlag(worldActor, "persistent.shortcuts", game.user.id);
-                    return setFlag(
-                        worldActor,
-                        "persistent.shortcuts",
-                        game.user.id,
-                        foundry.utils.deepClone(userShortcuts)
-                    );
+                    const path = this.shortcutsPath();
+
+                    await unsetFlag(worldActor, path);
+                    return setFlag(worldActor, path, foundry.utils.deepClone(userShortcuts));
                 }
             }
         });
@@ -1318,13 +2542,7 @@ class PF2eHudPersistent extends makeAdvancedHUD(
             }
             this.#overrideShortcutData();
         } else {
-            await unsetFlag(
-                this.worldActor!,
-                "persistent.shortcuts",
-                game.user.id,
-                groupIndex,
-                index
-            );
+            await unsetFlag(this.worldActor!, this.shortcutsPath(), groupIndex, index);
         }
     }
 
@@ -1333,6 +2551,17 @@ class PF2eHudPersistent extends makeAdvancedHUD(
             this.getShortcutFromElement<Exclude<Shortcut, AttackShortcut>>(shortcutElement);
         if (!shortcut || shortcut.isEmpty || shortcut.isDisabled) return;
 
+        return this.#useShortcut(event, shortcut);
+    }
+
+    /**
+     * resolves to `true` only when the shortcut was actually used
+     * anything else means it was cancelled or couldn't be used and stops a combo
+     */
+    async #useShortcut(
+        event: MouseEvent,
+        shortcut: Exclude<Shortcut, AttackShortcut>
+    ): Promise<boolean> {
         const actor = this.actor!;
 
         function confirmUse(item: ItemPF2e) {
@@ -1341,29 +2570,30 @@ class PF2eHudPersistent extends makeAdvancedHUD(
 
         switch (shortcut.type) {
             case "skill": {
-                if (!shortcut.item) return;
+                if (!shortcut.item) return false;
 
                 if (shortcut.item.isOfType("lore")) {
                     const slug = getLoreSlug(shortcut.item);
-                    return actor.getStatistic(slug)?.roll({ event });
+                    return !!(await actor.getStatistic(slug)?.roll({ event }));
                 } else if (shortcut.actionId === "recall-knowledge" && !shortcut.statistic) {
-                    return rollRecallKnowledge(actor);
+                    await rollRecallKnowledge(actor);
+                    return true;
                 } else if (shortcut.actionId === "earnIncome") {
-                    return game.pf2e.actions.earnIncome(actor);
+                    await game.pf2e.actions.earnIncome(actor);
+                    return true;
                 }
 
-                rollStatistic(actor, event, shortcut);
-                break;
+                return rollStatistic(actor, event, shortcut);
             }
 
             case "consumable": {
                 const item = shortcut.item;
-                if (!item) return;
+                if (!item) return false;
 
                 const setting = this.getSetting("consumableShortcut");
 
                 if (setting === "chat") {
-                    return item.toMessage(event);
+                    return !!(await item.toMessage(event));
                 }
 
                 if (shortcut.notCarried && shortcut.annotation) {
@@ -1371,40 +2601,69 @@ class PF2eHudPersistent extends makeAdvancedHUD(
                         const type = localize("sidebars.annotation", shortcut.annotation);
                         const name = item.name;
                         const confirm = await confirmShortcut("draw", { type, name });
-                        if (!confirm) return;
+                        if (!confirm) return false;
                     }
 
-                    return changeCarryType(actor, item, 1, shortcut.annotation);
+                    await changeCarryType(actor, item, 1, shortcut.annotation);
+                    return true;
                 }
 
                 if (setting === "confirm") {
                     const confirm = await confirmUse(item);
-                    if (!confirm) return;
+                    if (!confirm) return false;
                 }
 
-                return consumeItem(event, item);
+                // the consumption can be cancelled in a few places, we only trust the item state
+                const { quantity, uses } = item;
+
+                await consumeItem(event, item);
+
+                return (
+                    !actor.items.has(item.id) ||
+                    item.quantity !== quantity ||
+                    item.uses.value !== uses.value
+                );
             }
 
             case "toggle": {
                 const { domain, itemId, option } = shortcut;
-                return actor.toggleRollOption(domain, option, itemId ?? null);
+                await actor.toggleRollOption(domain, option, itemId ?? null);
+                return true;
+            }
+
+            case "macro": {
+                const macro = shortcut.macro;
+                if (!macro) return false;
+
+                if (
+                    this.getSetting("confirmShortcut") &&
+                    !(await confirmShortcut("confirm", { name: macro.name }))
+                )
+                    return false;
+
+                const token = actor.token?.object ?? getFirstActiveToken(actor, false, false);
+                const result: unknown = await macro.execute({ actor, token });
+
+                return result !== false && result !== null;
             }
 
             case "action": {
                 const item = shortcut.item;
-                if (!item) return;
+                if (!item) return false;
 
                 if (!isUsableAction(item)) {
-                    return new PF2eHudItemPopup({ actor, item, event }).render(true);
+                    new PF2eHudItemPopup({ actor, item, event }).render(true);
+                    return false;
                 }
 
-                if (this.getSetting("confirmShortcut") && !(await confirmUse(item))) return;
+                if (this.getSetting("confirmShortcut") && !(await confirmUse(item))) return false;
 
                 if (!shortcut.effectUuid || !isValidStance(item)) {
                     return useAction(event, item);
                 }
 
-                return toggleStance(actor as CharacterPF2e, shortcut.effectUuid, event.ctrlKey);
+                await toggleStance(actor as CharacterPF2e, shortcut.effectUuid, event.ctrlKey);
+                return true;
             }
 
             case "spell": {
@@ -1418,31 +2677,53 @@ class PF2eHudPersistent extends makeAdvancedHUD(
                     parentItem,
                 } = shortcut;
 
-                if (!spell) return;
+                if (!spell) return false;
 
                 const setting = this.getSetting("confirmShortcut");
 
                 if (notCarried) {
-                    if (!annotation || !parentItem) return;
+                    if (!annotation || !parentItem) return false;
 
                     if (setting) {
                         const type = localize("sidebars.annotation", annotation);
                         const name = parentItem.name;
                         const confirm = await confirmShortcut("draw", { type, name });
 
-                        if (!confirm) return;
+                        if (!confirm) return false;
                     }
 
-                    return changeCarryType(actor, parentItem, 1, annotation);
+                    await changeCarryType(actor, parentItem, 1, annotation);
+                    return true;
                 }
 
-                if (setting && !(await confirmUse(spell))) return;
+                if (setting && !(await confirmUse(spell))) return false;
 
-                return (
-                    spell.parentItem?.consume() ?? collection.entry.cast(spell, { rank, slotId })
-                );
+                await (spell.parentItem?.consume() ??
+                    collection.entry.cast(spell, { rank, slotId }));
+
+                return true;
+            }
+
+            case "combo": {
+                // continues from the attacks already made this turn, clamped by useAttackStep
+                let mapIncreases = getMapIndex(actor);
+
+                for (const step of shortcut.stepShortcuts) {
+                    if (step.isEmpty || step.isDisabled) return false;
+
+                    const success =
+                        step.type === "attack"
+                            ? await useAttackStep(event, step, mapIncreases++)
+                            : await this.#useShortcut(event, step);
+
+                    if (success !== true) return false;
+                }
+
+                return true;
             }
         }
+
+        return false;
     }
 
     async #onShortcutAction(event: MouseEvent, shortcutElement: HTMLElement, el: HTMLElement) {
@@ -1456,6 +2737,11 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         };
 
         switch (action) {
+            case "edit-combo": {
+                event.stopPropagation();
+                return this.#editCombo(shortcutElement);
+            }
+
             case "toggle-damage": {
                 shortcutElement?.classList.toggle("show-damage");
                 break;
@@ -1476,7 +2762,8 @@ class PF2eHudPersistent extends makeAdvancedHUD(
                 if (!shortcut?.blast || shortcut.isEmpty) return;
 
                 const mapIncreases = Math.clamp(Number(el.dataset.mapIncreases), 0, 2);
-                return shortcut.blast.attack(event, mapIncreases, el);
+                const melee = el.dataset.melee === "true";
+                return shortcut.blast.attack(event, mapIncreases, melee);
             }
 
             case "blast-damage": {
@@ -1524,7 +2811,7 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         const wrongActor = () => warn("persistent.main.shortcut.wrongActor");
         const wrongOrigin = () => warn("persistent.main.shortcut.wrongOrigin");
 
-        if (!["Item", "RollOption", "Action"].includes(dropData.type ?? "")) {
+        if (!["Item", "RollOption", "Action", "Macro"].includes(dropData.type ?? "")) {
             return wrongType();
         }
 
@@ -1670,6 +2957,23 @@ class PF2eHudPersistent extends makeAdvancedHUD(
                 break;
             }
 
+            case "Macro": {
+                const macro = await fromUuid<Macro>(dropData.uuid ?? "");
+                if (!isInstanceOf(macro, "Macro")) return wrongType();
+
+                newShortcut = {
+                    type: "macro",
+                    index,
+                    groupIndex,
+                    macroUuid: macro.uuid,
+                    sourceId: macro._stats.compendiumSource ?? undefined,
+                    name: macro.name,
+                    img: macro.img,
+                } satisfies MacroShortcutData;
+
+                break;
+            }
+
             case "Action": {
                 if (typeof dropData.index !== "number" && !dropData.elementTrait)
                     return wrongType();
@@ -1714,15 +3018,31 @@ class PF2eHudPersistent extends makeAdvancedHUD(
 
         if (!newShortcut) return;
 
+        addShortcutReferences(actor, [newShortcut]);
+
+        const targetIndex = el.dataset.index ?? index;
+        const targetData = this.#shortcutData[groupIndex]?.[targetIndex];
+
+        if (event.shiftKey && targetData && targetData.type !== "attack") {
+            const step = R.omit(newShortcut, ["index", "groupIndex"]) as ComboStepData;
+
+            index = targetIndex;
+            newShortcut = {
+                type: "combo",
+                index,
+                groupIndex,
+                name: targetData.type === "combo" ? targetData.name : "",
+                steps:
+                    targetData.type === "combo"
+                        ? [...targetData.steps, step]
+                        : [R.omit(targetData, ["index", "groupIndex"]) as ComboStepData, step],
+            } satisfies ComboShortcutData;
+        }
+
         const group = this.isVirtual
             ? this.#shortcutData[groupIndex] ?? {}
             : foundry.utils.deepClone(
-                  getFlag<Record<string, any>>(
-                      worldActor,
-                      "persistent.shortcuts",
-                      game.user.id,
-                      groupIndex
-                  )
+                  getFlag<Record<string, any>>(worldActor, this.shortcutsPath(), groupIndex)
               ) ?? {};
 
         if (newShortcut.type === "attack") {
@@ -1756,16 +3076,102 @@ class PF2eHudPersistent extends makeAdvancedHUD(
             this.#shortcutData[groupIndex] = group;
             this.#overrideShortcutData();
         } else {
-            await setFlag(worldActor, "persistent.shortcuts", game.user.id, groupIndex, group);
+            await setFlag(worldActor, this.shortcutsPath(), groupIndex, group);
         }
     }
 
     async #overrideShortcutData() {
-        const userId = game.user.id;
+        const path = this.shortcutsPath();
         const worldActor = this.worldActor!;
         const shortcutData = foundry.utils.deepClone(this.#shortcutData);
-        await unsetFlag(worldActor, "persistent.shortcuts", userId);
-        await setFlag(worldActor, "persistent.shortcuts", userId, shortcutData);
+        addShortcutReferences(this.actor!, shortcutData);
+        await unsetFlag(worldActor, path);
+        await setFlag(worldActor, path, shortcutData);
+    }
+
+    async #editShortcutPages() {
+        const actor = this.actor;
+        const worldActor = this.worldActor;
+        if (!actor || !worldActor) return;
+
+        const userId = game.user.id;
+        const pages = this.shortcutPages;
+        const currentId = this.currentPage.id;
+
+        const result = await waitDialog<ShortcutPagesDialogData>({
+            title: `${actor.name} - ${localize("persistent.main.pages.title")}`,
+            content: "dialogs/shortcut-pages",
+            classes: ["pf2e-hud-shortcut-pages"],
+            yes: {
+                label: localize("persistent.main.pages.save"),
+                default: true,
+            },
+            no: {
+                label: localize("persistent.main.pages.cancel"),
+            },
+            data: {
+                pages,
+                currentId,
+                i18n: templateLocalize("persistent.main.pages"),
+            },
+            render: (event, html) => {
+                const listElement = htmlQuery(html, ".pages");
+                if (!listElement) return;
+
+                addListenerAll(listElement, "[data-action='move-page']", (event, el) => {
+                    const row = htmlClosest(el, "[data-page-id]");
+                    if (!row) return;
+
+                    if (el.dataset.direction === "up") {
+                        row.previousElementSibling?.before(row);
+                    } else {
+                        row.nextElementSibling?.after(row);
+                    }
+
+                    const sortElements =
+                        listElement.querySelectorAll<HTMLInputElement>("input[data-sort]");
+                    for (const [index, sortElement] of sortElements.entries()) {
+                        sortElement.value = String(index);
+                    }
+                });
+            },
+        });
+
+        if (!result) return;
+
+        const data = foundry.utils.expandObject(result) as ExpandedShortcutPagesDialogData;
+        const list: ShortcutPage[] = [];
+        const sorting: Record<string, number> = {};
+
+        for (const page of pages) {
+            const pageData = data.pages?.[page.id];
+
+            if (pageData?.delete) {
+                await unsetFlag(worldActor, this.shortcutsPath(page.id, userId));
+                continue;
+            }
+
+            sorting[page.id] = Number(pageData?.sort) || 0;
+            list.push({ id: page.id, name: pageData?.name?.trim() || page.name });
+        }
+
+        list.sort((a, b) => sorting[a.id] - sorting[b.id]);
+
+        const newPageName = data.newPage?.trim();
+        if (newPageName) {
+            list.push({ id: foundry.utils.randomID(), name: newPageName });
+        }
+
+        if (!list.length) {
+            return unsetFlag(worldActor, "persistent.pages", userId);
+        }
+
+        const current = list.find((page) => page.id === currentId) ?? list[0];
+
+        return setFlag(worldActor, "persistent.pages", userId, {
+            current: current.id,
+            list,
+        } satisfies ShortcutPagesData);
     }
 
     async #fillShortcut(
@@ -1776,118 +3182,188 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         index = String(index);
         groupIndex = String(groupIndex);
 
-        const emptyData: EmptyShortcut = {
-            index,
-            groupIndex,
-            isEmpty: true,
-        };
+        const emptyData: EmptyShortcut = {
+            index,
+            groupIndex,
+            isEmpty: true,
+        };
+
+        const actor = this.actor as CharacterPF2e | NPCPF2e;
+        const fillData = (cached.fillData ??= await getAutoFillData(actor, this.autoFillRules));
+
+        const position =
+            index === "0" ? 0 : fillData.findIndex((data) => data.type !== "attack");
+        const data = position === -1 ? undefined : fillData.splice(position, 1).at(0);
+        if (!data) return emptyData;
+
+        return this.#createShortcut({ ...data, groupIndex, index } as ShortcutData, cached);
+    }
+
+    async #editCombo(shortcutElement: HTMLElement) {
+        const { groupIndex, index } = elementDataset(shortcutElement);
+        const shortcut = this.getShortcut<ComboShortcut>(groupIndex, index);
+        const shortcutData = this.#shortcutData[groupIndex]?.[index];
+        if (!shortcut || shortcut.isEmpty || shortcutData?.type !== "combo") return;
+
+        const result = await waitDialog<Record<string, string | boolean>>({
+            title: localize("persistent.main.combo.title"),
+            content: "dialogs/shortcut-combo",
+            classes: ["pf2e-hud-shortcut-combo"],
+            yes: {
+                label: localize("persistent.main.combo.save"),
+                default: true,
+            },
+            no: {
+                label: localize("persistent.main.combo.cancel"),
+            },
+            data: {
+                name: shortcutData.name,
+                placeholder: shortcut.name,
+                steps: shortcut.stepShortcuts.map((step, index) => ({
+                    index,
+                    name: step.isEmpty ? localize("persistent.main.combo.missing") : step.name,
+                    img: step.isEmpty ? ICON_COMBO : step.img,
+                })),
+                i18n: templateLocalize("persistent.main.combo"),
+            },
+            render: (event, html) => {
+                const listElement = htmlQuery(html, ".steps");
+                if (!listElement) return;
+
+                addListenerAll(listElement, "[data-action='move-step']", (event, el) => {
+                    const row = htmlClosest(el, "[data-step-index]");
+                    if (!row) return;
+
+                    if (el.dataset.direction === "up") {
+                        row.previousElementSibling?.before(row);
+                    } else {
+                        row.nextElementSibling?.after(row);
+                    }
+
+                    const sortElements =
+                        listElement.querySelectorAll<HTMLInputElement>("input[data-sort]");
+                    for (const [index, sortElement] of sortElements.entries()) {
+                        sortElement.value = String(index);
+                    }
+                });
+            },
+        });
 
-        const actor = this.actor as NPCPF2e;
+        if (!result) return;
 
-        const returnShortcut = async (shortcutData: ShortcutData) => {
-            const shortcut = await this.#createShortcut(shortcutData, cached);
-            return shortcut;
+        const data = foundry.utils.expandObject(result) as {
+            name?: string;
+            steps?: Record<string, { sort: string; delete?: boolean }>;
         };
 
-        const strike = actor.system.actions[Number(groupIndex)];
-        if (strike) {
-            const shortcutData = createStrikeShortcutData(groupIndex, index, strike, false);
-            return returnShortcut(shortcutData);
+        const steps = R.pipe(
+            shortcutData.steps,
+            R.map((step, index) => ({ step, ...data.steps?.[index] })),
+            R.filter((entry) => !entry.delete),
+            R.sortBy((entry) => Number(entry.sort) || 0),
+            R.map(({ step }) => step)
+        );
+
+        if (steps.length) {
+            this.#shortcutData[groupIndex][index] = {
+                ...shortcutData,
+                name: data.name?.trim() ?? "",
+                steps,
+            };
+        } else {
+            delete this.#shortcutData[groupIndex][index];
         }
 
-        const actions = [
-            ["action", "autoFillActions"],
-            ["reaction", "autoFillReactions"],
-        ] as const;
-        for (const [type, setting] of actions) {
-            cached.fillActions ??= {};
-            cached.fillActions[type] ??= { setting: this.getSetting(setting), index: 0 };
-            if (!cached.fillActions[type]!.setting) continue;
+        return this.#overrideShortcutData();
+    }
 
-            const action = actor.itemTypes.action
-                .filter((x) => x.system.actionType.value === type)
-                .at(cached.fillActions[type]!.index++);
+    async #repairShortcuts() {
+        const actor = this.actor;
+        const worldActor = this.worldActor;
+        if (!actor || !worldActor || this.isVirtual) return;
 
-            if (action) {
-                const shortcutData: ActionShortcutData = {
-                    type: "action",
-                    index,
-                    groupIndex,
-                    itemId: action.id,
-                    name: action.name,
-                    img: getActionImg(action, true),
-                    effectUuid: undefined,
-                };
+        const shortcuts = foundry.utils.deepClone(
+            getFlag<UserShortcutsData>(worldActor, this.shortcutsPath()) ?? {}
+        );
+        const report = await repairShortcuts(actor, shortcuts);
 
-                return returnShortcut(shortcutData);
-            }
+        if (report.fixed.length) {
+            this.#shortcutData = shortcuts;
+            await this.#overrideShortcutData();
         }
 
-        const checkSpells = async () => {
-            const entryData = await actor.spellcasting.regular.at(0)?.getSheetData();
-            if (!entryData) return emptyData;
+        return promptDialog(
+            {
+                title: `${actor.name} - ${localize("utils.shortcuts.repair.title")}`,
+                content: "dialogs/shortcuts-repair",
+                classes: ["pf2e-hud-shortcuts-repair"],
+                data: {
+                    ...report,
+                    i18n: templateLocalize("utils.shortcuts.repair"),
+                },
+            },
+            { width: 350 }
+        );
+    }
 
-            cached.spells ??= { groupIndex: 0, index: 0 };
+    async #editAutoFillRules() {
+        const rules = await editAutoFillRules(this.autoFillRules);
+        if (!rules) return;
 
-            let spellGroup = entryData.groups.at(cached.spells.groupIndex);
+        // an empty list is saved as is, the defaults are only used when nothing was ever saved
+        await this.setUserSetting("autoFillRules", rules);
 
-            while (spellGroup && cached.spells.index >= spellGroup.active.length) {
-                cached.spells.index = 0;
-                spellGroup = entryData.groups.at(++cached.spells.groupIndex);
-            }
+        if (this.isVirtual) {
+            this.render({ parts: ["main"] });
+        }
+    }
 
-            if (spellGroup) {
-                const slotIndex = cached.spells.index++;
-                const active = spellGroup.active[slotIndex]!;
+    async #fillCharacterShortcuts(gapsOnly: boolean) {
+        const actor = this.actor;
+        if (!actor?.isOfType("character")) return;
 
-                const shortcutData: SpellShortcutData = {
-                    type: "spell",
-                    index,
-                    groupIndex,
-                    itemType: "spell",
-                    entryId: entryData.id,
-                    groupId: spellGroup.id,
-                    itemId: active.spell.id,
-                    slotId: entryData.isPrepared ? slotIndex : undefined,
-                    castRank:
-                        active.castRank ??
-                        active.spell.system.location.heightenedLevel ??
-                        active.spell.rank,
-                };
-
-                return returnShortcut(shortcutData);
-            }
+        const nbSlots = this.getSetting("shortcutSlots");
+        const shortcutData: UserShortcutsData = gapsOnly
+            ? foundry.utils.deepClone(this.#shortcutData)
+            : {};
+
+        const existing = R.pipe(
+            R.values(shortcutData),
+            R.flatMap((group) => R.values(group)),
+            R.map((data) => getShortcutIdentifier(data))
+        );
+
+        const isNew = (data: FillShortcutData) => {
+            return !existing.includes(getShortcutIdentifier(data as ShortcutData));
         };
 
-        const checkConsumables = () => {
-            cached.consumable ??= 0;
+        const fillData = (await getAutoFillData(actor, this.autoFillRules)).filter(isNew);
+        const attacks = fillData.filter((data) => data.type === "attack");
+        const others = fillData.filter((data) => data.type !== "attack");
 
-            const consumable = actor.itemTypes.consumable.at(cached.consumable++);
-            if (!consumable || consumable.category === "ammo") return emptyData;
+        for (const groupIndex of R.range(0, nbSlots).map(String)) {
+            const group = (shortcutData[groupIndex] ??= {});
 
-            const shortcutData: TemporaryConsumableShortcutData = {
-                type: "consumable",
-                itemId: consumable.id,
-                index,
-                groupIndex,
-            };
+            if (R.isEmpty(group) && attacks.length) {
+                const index = "0";
+                group[index] = { ...attacks.shift()!, groupIndex, index } as ShortcutData;
+                continue;
+            }
 
-            return returnShortcut(shortcutData);
-        };
+            if (group["0"]?.type === "attack") continue;
 
-        cached.autoFillType ??= this.getSetting("autoFillType");
+            for (const index of R.range(0, 4).map(String)) {
+                if (group[index]) continue;
 
-        const checks =
-            cached.autoFillType === "one"
-                ? [checkSpells, checkConsumables]
-                : [checkConsumables, checkSpells];
+                const data = others.shift();
+                if (!data) break;
 
-        for (const checkFn of checks) {
-            const result = await checkFn();
-            if (result && "type" in result) return result;
+                group[index] = { ...data, groupIndex, index } as ShortcutData;
+            }
         }
 
-        return emptyData;
+        this.#shortcutData = shortcutData;
+        return this.#overrideShortcutData();
     }
 
     async #createShortcutFromFlag<T extends Shortcut>(
@@ -1896,10 +3372,10 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         cached: CreateShortcutCache,
         owner?: string
     ) {
+        const path = owner ? this.shortcutsPath(DEFAULT_PAGE, owner) : this.shortcutsPath();
         const flag = getFlag<ShortcutData>(
             this.worldActor!,
-            "persistent.shortcuts",
-            owner ?? game.user.id,
+            path,
             String(groupIndex),
             String(index)
         );
@@ -1912,7 +3388,9 @@ class PF2eHudPersistent extends makeAdvancedHUD(
 
     async #createShortcut<T extends Shortcut>(
         shortcutData: ShortcutData | { groupIndex: string; index: string },
-        cached: CreateShortcutCache
+        cached: CreateShortcutCache,
+        store = true,
+        actor = this.actor as CreaturePF2e
     ): Promise<T | EmptyShortcut> {
         const { groupIndex, index } = shortcutData;
         const throwError = () => {
@@ -1921,7 +3399,6 @@ class PF2eHudPersistent extends makeAdvancedHUD(
             );
         };
 
-        const actor = this.actor as CreaturePF2e;
         if (!actor || !groupIndex || isNaN(Number(groupIndex)) || !index || isNaN(Number(index))) {
             return throwError();
         }
@@ -1935,7 +3412,7 @@ class PF2eHudPersistent extends makeAdvancedHUD(
         if (!("type" in shortcutData)) return emptyData;
 
         const returnShortcut = async (shortcut: Shortcut) => {
-            if (!shortcut.isEmpty) {
+            if (store && !shortcut.isEmpty) {
                 foundry.utils.setProperty(
                     this.#shortcutData,
                     `${groupIndex}.${index}`,
@@ -2031,7 +3508,7 @@ class PF2eHudPersistent extends makeAdvancedHUD(
                     return hasItemWithSourceId(actor, item.system.selfEffect.uuid, "effect");
                 })();
 
-                if (isStance) {
+                if (isStance && actor === this.actor) {
                     this.#hasStances = true;
                 }
 
@@ -2324,6 +3801,62 @@ class PF2eHudPersistent extends makeAdvancedHUD(
                 }
             }
 
+            case "combo": {
+                const stepShortcuts: (Shortcut | EmptyShortcut)[] = [];
+
+                for (const step of shortcutData.steps) {
+                    const stepData = { ...step, groupIndex, index } as ShortcutData;
+                    stepShortcuts.push(
+                        await this.#createShortcut(stepData, cached, false, actor)
+                    );
+                }
+
+                const validSteps = stepShortcuts.filter(
+                    (step): step is Shortcut => !step.isEmpty
+                );
+                const disabled =
+                    validSteps.length !== stepShortcuts.length ||
+                    validSteps.some((step) => step.isDisabled);
+
+                const costs = validSteps.map((step) =>
+                    step.type === "attack" ? 1 : "cost" in step ? step.cost : undefined
+                );
+                const total = R.pipe(
+                    costs,
+                    R.filter((cost): cost is number => typeof cost === "number"),
+                    R.reduce((sum, cost) => sum + cost, 0)
+                );
+                const cost =
+                    total > 3 ? "extra" : total || (costs.includes("free") ? "free" : undefined);
+
+                const name =
+                    shortcutData.name || validSteps.map((step) => step.name).join(" → ");
+
+                return returnShortcut({
+                    ...shortcutData,
+                    isDisabled: !validSteps.length,
+                    isFadedOut: disabled,
+                    stepShortcuts,
+                    img: validSteps.at(0)?.img ?? ICON_COMBO,
+                    name,
+                    cost,
+                    subtitle: localize("persistent.main.shortcut.combo.cost", { cost: total }),
+                } satisfies ComboShortcut as T);
+            }
+
+            case "macro": {
+                const macro = await getShortcutMacro(shortcutData);
+
+                return returnShortcut({
+                    ...shortcutData,
+                    isDisabled: !macro,
+                    isFadedOut: !macro,
+                    macro,
+                    img: macro?.img ?? shortcutData.img,
+                    name: macro?.name ?? shortcutData.name,
+                } satisfies MacroShortcut as T);
+            }
+
             case "toggle": {
                 const { domain, option } = shortcutData;
                 const item = actor.items.get(shortcutData.itemId);
@@ -2353,6 +3886,85 @@ class PF2eHudPersistent extends makeAdvancedHUD(
     }
 }
 
+function getEffectGroup(effect: EffectsGroupItem): EffectsGroupSlug {
+    if (effect.isOfType("condition")) {
+        return effect.slug === "persistent-damage" ? "persistent" : "conditions";
+    }
+
+    if (!effect.isOfType("effect")) {
+        return "other";
+    }
+
+    if (effect.isAura) {
+        return "auras";
+    }
+
+    const isSpellEffect =
+        effect.slug.startsWith("spell-effect") ||
+        !!effect.system.context?.origin.spellcasting ||
+        !!effect.sourceId?.startsWith("Compendium.pf2e.spell-effects.");
+
+    return isSpellEffect ? "spells" : "other";
+}
+
+function sortEffects(effects: EffectsGroupItem[], sort: PersistentSettings["sortEffects"]) {
+    switch (sort) {
+        case "name": {
+            return R.sortBy(effects, (effect) => effect.name);
+        }
+
+        case "duration": {
+            return R.sortBy(effects, getEffectRemainingDuration);
+        }
+
+        default: {
+            return effects;
+        }
+    }
+}
+
+function getEffectRemainingDuration(effect: EffectsGroupItem) {
+    return effect.isOfType("effect") ? effect.remainingDuration.remaining : Infinity;
+}
+
+/**
+ * effects with a turn based expiry and less than a round remaining in the active combat
+ */
+function getExpiringEffects(actor: ActorPF2e, effects: EffectPF2e[]) {
+    const expiring = new Map<string, EffectExpiry>();
+    const combatant = actor.combatant;
+    if (!combatant?.encounter?.started) return expiring;
+
+    for (const effect of effects) {
+        const { duration, expired } = effect.system;
+        if (expired || !["turn-start", "turn-end"].includes(duration.expiry ?? "")) continue;
+
+        const remaining = effect.remainingDuration.remaining;
+        if (remaining > CONFIG.time.roundTime) continue;
+
+        expiring.set(effect.id, duration.expiry === "turn-start" ? "start" : "end");
+    }
+
+    return expiring;
+}
+
+function snapToEdges({ left, top, width, height }: DOMRect): PartPosition {
+    const maxLeft = window.innerWidth - width;
+    const maxTop = window.innerHeight - height;
+
+    const snap = (value: number, max: number) => {
+        value = Math.clamp(value, 0, Math.max(max, 0));
+        if (value < SNAP_DISTANCE) return 0;
+        if (max - value < SNAP_DISTANCE) return max;
+        return value;
+    };
+
+    return {
+        left: snap(left, maxLeft),
+        top: snap(top, maxTop),
+    };
+}
+
 function isUsableAction(item: FeatPF2e | AbilityItemPF2e) {
     return (
         item.system.selfEffect ||
@@ -2361,6 +3973,277 @@ function isUsableAction(item: FeatPF2e | AbilityItemPF2e) {
     );
 }
 
+/**
+ * never fallback to a macro with the same name, it could be a completely different one
+ */
+async function getShortcutMacro({ macroUuid, sourceId }: MacroShortcutData) {
+    const macro = await fromUuid<Macro>(macroUuid);
+    if (macro) return macro;
+
+    const sources = R.filter([macroUuid, sourceId], R.isTruthy);
+    const worldMacro = game.macros.find((macro) => {
+        const source = macro._stats.compendiumSource ?? macro.flags.core?.sourceId;
+        return !!source && sources.includes(source);
+    });
+    if (worldMacro) return worldMacro;
+
+    const sourceMacro = sourceId ? await fromUuid<Macro>(sourceId) : null;
+    return sourceMacro ?? null;
+}
+
+function createTurnChecklist(
+    phase: TurnChecklist["phase"],
+    combatant: CombatantPF2e,
+    round: number
+): TurnChecklist {
+    return {
+        phase,
+        actorUuid: combatant.actor!.uuid,
+        combatantId: combatant.id,
+        round,
+        resolved: [],
+        rolled: [],
+    };
+}
+
+async function useAttackStep(event: MouseEvent, step: AttackShortcut, mapIncreases: number) {
+    const map = Math.clamp(mapIncreases, 0, 2);
+
+    if ("isBlast" in step) {
+        return !!(await step.blast?.attack(event, map, !step.variant));
+    }
+
+    const strike = step.variant ? step.strike?.altUsages?.at(0) : step.strike;
+    return !!(await strike?.variants[map]?.roll({ event }));
+}
+
+function getShortcutIdentifier(data: ShortcutData) {
+    const id =
+        "itemId" in data
+            ? data.itemId
+            : "elementTrait" in data
+            ? data.elementTrait
+            : "slug" in data
+            ? data.slug
+            : "macroUuid" in data
+            ? data.macroUuid
+            : "itemUuid" in data
+            ? `${data.itemUuid}-${data.statistic}-${data.variant}`
+            : "";
+
+    return data.type === "spell"
+        ? `${data.type}-${id}-${data.entryId}-${data.groupId}-${data.slotId}`
+        : `${data.type}-${id}`;
+}
+
+async function getAutoFillData(actor: CharacterPF2e | NPCPF2e, rules: AutoFillRule[]) {
+    const isCharacter = actor.isOfType("character");
+    const fillData: FillShortcutData[] = [];
+    const identifiers = new Set<string>();
+
+    const addData = (data: FillShortcutData) => {
+        const identifier = getShortcutIdentifier(data as ShortcutData);
+        if (identifiers.has(identifier)) return;
+
+        identifiers.add(identifier);
+        fillData.push(data);
+    };
+
+    const getActionCost = (actionCost: Maybe<ActionCost>) => {
+        return actionCost?.type === "action" ? actionCost.value : actionCost?.type;
+    };
+
+    const stances = isCharacter ? getStances(actor) : [];
+    const stanceIds = stances.map((stance) => stance.actionID);
+
+    const entries = await Promise.all(
+        actor.spellcasting.regular.map((entry) => entry.getSheetData())
+    );
+
+    for (const rule of rules) {
+        switch (rule.source) {
+            case "strikes": {
+                for (const strike of actor.system.actions) {
+                    if (isCharacter && (!strike.ready || !strike.visible)) continue;
+
+                    const item = strike.item;
+                    const test = testAutoFillRule(rule, {
+                        traits: item.system.traits.value,
+                        category: item.isOfType("weapon") ? item.category : null,
+                        cost: 1,
+                    });
+
+                    if (test) {
+                        addData(createStrikeShortcutData("", "", strike, false));
+                    }
+                }
+
+                if (!isCharacter) break;
+
+                for (const config of new game.pf2e.ElementalBlast(actor).configs) {
+                    const test = testAutoFillRule(rule, {
+                        traits: [config.element, "impulse"],
+                        category: "blast",
+                        cost: 1,
+                    });
+
+                    if (!test) continue;
+
+                    addData({
+                        type: "attack",
+                        elementTrait: config.element,
+                        img: config.img,
+                        variant: false,
+                        name: game.i18n.localize(config.label),
+                    } satisfies FillShortcutData<BlastShortcutData>);
+                }
+
+                break;
+            }
+
+            case "stances": {
+                for (const stance of stances) {
+                    const item = actor.items.get(stance.actionID);
+                    if (!item?.isOfType("action", "feat")) continue;
+
+                    const test = testAutoFillRule(rule, {
+                        traits: item.system.traits.value,
+                        category: item.isOfType("feat") ? item.category : item.system.category,
+                        cost: getActionCost(item.actionCost),
+                    });
+
+                    if (!test) continue;
+
+                    addData({
+                        type: "action",
+                        itemId: item.id,
+                        name: item.name,
+                        img: getActionImg(item, true),
+                        effectUuid: stance.effectUUID,
+                    } satisfies FillShortcutData<ActionShortcutData>);
+                }
+
+                break;
+            }
+
+            case "actions": {
+                const classFeatures = isCharacter
+                    ? actor.itemTypes.feat.filter((feat) => feat.category === "classfeature")
+                    : [];
+                const abilities = [...classFeatures, ...actor.itemTypes.action];
+
+                for (const ability of abilities) {
+                    const cost = getActionCost(ability.actionCost);
+
+                    if (
+                        !cost ||
+                        stanceIds.includes(ability.id) ||
+                        (isCharacter && ability.slug === "elemental-blast")
+                    )
+                        continue;
+
+                    const test = testAutoFillRule(rule, {
+                        traits: ability.system.traits.value,
+                        category: ability.isOfType("feat")
+                            ? ability.category
+                            : ability.system.category,
+                        cost,
+                    });
+
+                    if (!test) continue;
+
+                    addData({
+                        type: "action",
+                        itemId: ability.id,
+                        name: ability.name,
+                        img: getActionImg(ability, true),
+                        effectUuid: undefined,
+                    } satisfies FillShortcutData<ActionShortcutData>);
+                }
+
+                break;
+            }
+
+            case "spells": {
+                for (const entryData of entries) {
+                    const isPrepared = entryData.isPrepared && !entryData.isFlexible;
+                    const isSpontaneous =
+                        !isPrepared && !entryData.isFocusPool && !entryData.isInnate;
+
+                    for (const group of entryData.groups) {
+                        for (const [slotIndex, active] of group.active.entries()) {
+                            if (!active?.spell || active.virtual) continue;
+
+                            const spell = active.spell;
+                            const castRank =
+                                active.castRank ??
+                                spell.system.location.heightenedLevel ??
+                                spell.rank;
+
+                            if (
+                                isCharacter &&
+                                isSpontaneous &&
+                                !spell.isCantrip &&
+                                !spell.system.location.signature
+                            )
+                                continue;
+
+                            const test = testAutoFillRule(rule, {
+                                traits: [...spell.traits],
+                                category: entryData.category,
+                                rank: spell.isCantrip ? 0 : castRank,
+                                cost: spell.system.time.value,
+                            });
+
+                            if (!test) continue;
+
+                            addData({
+                                type: "spell",
+                                itemType: "spell",
+                                entryId: entryData.id,
+                                groupId: group.id,
+                                itemId: spell.id,
+                                slotId: entryData.isPrepared ? slotIndex : undefined,
+                                castRank,
+                            } satisfies FillShortcutData<SpellShortcutData>);
+                        }
+                    }
+                }
+
+                break;
+            }
+
+            case "consumables": {
+                for (const consumable of actor.itemTypes.consumable) {
+                    if (
+                        consumable.category === "ammo" ||
+                        (isCharacter && consumable.carryType !== "held")
+                    )
+                        continue;
+
+                    const test = testAutoFillRule(rule, {
+                        traits: consumable.system.traits.value,
+                        category: consumable.category,
+                        rank: consumableRank(consumable),
+                        cost: consumable.system.spell?.system.time.value,
+                    });
+
+                    if (!test) continue;
+
+                    addData({
+                        type: "consumable",
+                        itemId: consumable.id,
+                    } satisfies FillShortcutData<TemporaryConsumableShortcutData>);
+                }
+
+                break;
+            }
+        }
+    }
+
+    return fillData;
+}
+
 function createStrikeShortcutData(
     groupIndex: string,
     index: string,
@@ -2394,6 +4277,43 @@ function getCost(costAction: { value: string | number } | ActionCost | undefined
     return isNaN(costValue) ? (cost ? "extra" : undefined) : costValue;
 }
 
+function getMessageActionCost(message: ChatMessagePF2e): number | "reaction" | undefined {
+    const item = message.item;
+    const { context, casting } = message.flags.pf2e;
+    if (context && "isReroll" in context && context.isReroll) return;
+
+    switch (context?.type) {
+        case "attack-roll": {
+            // spell attacks are already paid for by the casting message
+            return item?.isOfType("spell") ? undefined : 1;
+        }
+
+        case "skill-check": {
+            const option = context.options?.find((option) => option.startsWith("action:"));
+            const slug = option?.split(":")[1];
+            const action = slug ? game.pf2e.actions.get(slug) : undefined;
+            return action?.cost ? toActionCost(getCost({ value: action.cost })) : undefined;
+        }
+
+        case "self-effect": {
+            return item?.isOfType("action", "feat")
+                ? toActionCost(getCost(item.actionCost))
+                : undefined;
+        }
+
+        case undefined: {
+            // anything else is a description post
+            return item?.isOfType("spell") && casting
+                ? toActionCost(getCost(item.system.time))
+                : undefined;
+        }
+    }
+}
+
+function toActionCost(cost: ReturnType<typeof getCost>) {
+    return typeof cost === "number" || cost === "reaction" ? cost : undefined;
+}
+
 function consumableRank(item: Maybe<ConsumablePF2e>, roman: true): RomanRank | undefined;
 function consumableRank(item: Maybe<ConsumablePF2e>, roman?: false): OneToTen | undefined;
 function consumableRank(
@@ -2432,11 +4352,29 @@ type ShortcutActionEvent =
     | "strike-damage"
     | "strike-critical"
     | "auxiliary-action"
-    | "channel-elements";
-
-type ShortcutMenusAction = "delete-shortcuts" | "fill-shortcuts" | "copy-owner-shortcuts";
-
-type ShortcutType = "action" | "attack" | "consumable" | "spell" | "toggle" | "skill";
+    | "channel-elements"
+    | "edit-combo";
+
+type ShortcutMenusAction =
+    | "delete-shortcuts"
+    | "fill-shortcuts"
+    | "copy-owner-shortcuts"
+    | "fill-gaps"
+    | "edit-fill-rules"
+    | "repair-shortcuts"
+    | "edit-pages"
+    | "export-shortcuts"
+    | "import-shortcuts";
+
+type ShortcutType =
+    | "action"
+    | "attack"
+    | "consumable"
+    | "spell"
+    | "toggle"
+    | "skill"
+    | "macro"
+    | "combo";
 
 type CreateShortcutCache = {
     rankLabel?: Partial<Record<OneToTen, string>>;
@@ -2448,16 +4386,34 @@ type CreateShortcutCache = {
 };
 
 type FillShortcutCache = {
-    spells?: { groupIndex: number; index: number };
-    consumable?: number;
-    autoFillType?: AutoFillSetting;
-    fillActions?: Record<string, Maybe<{ index: number; setting: boolean }>>;
+    fillData?: FillShortcutData[];
 };
 
 type ShortcutCache = CreateShortcutCache & FillShortcutCache;
 
+type FillShortcutData<T extends ShortcutData = ShortcutData> = T extends ShortcutData
+    ? Omit<T, "index" | "groupIndex">
+    : never;
+
 type UserShortcutsData = Record<string, Record<string, ShortcutData>>;
 
+type ShortcutPage = {
+    id: string;
+    name: string;
+};
+
+type ShortcutPagesData = {
+    current: string;
+    list: ShortcutPage[];
+};
+
+type ShortcutPagesDialogData = Record<string, string | boolean>;
+
+type ExpandedShortcutPagesDialogData = {
+    newPage?: string;
+    pages?: Record<string, { name?: string; sort?: string; delete?: boolean }>;
+};
+
 type ShortcutDataBase<T extends ShortcutType> = {
     type: T;
     index: string;
@@ -2467,6 +4423,8 @@ type ShortcutDataBase<T extends ShortcutType> = {
 type SpellShortcutData = ShortcutDataBase<"spell"> & {
     itemType: string;
     itemId: string;
+    itemRef?: ShortcutItemReference;
+    entryRef?: ShortcutItemReference;
     castRank: number;
     entryId: string;
     slotId: number | undefined;
@@ -2475,6 +4433,7 @@ type SpellShortcutData = ShortcutDataBase<"spell"> & {
 
 type ToggleShortcutData = ShortcutDataBase<"toggle"> & {
     itemId: string;
+    itemRef?: ShortcutItemReference;
     domain: string;
     option: string;
     name: string;
@@ -2489,6 +4448,7 @@ type AttackShortcutDataBase = ShortcutDataBase<"attack"> & {
 
 type StrikeShortcutData = AttackShortcutDataBase & {
     itemId: string;
+    itemRef?: ShortcutItemReference;
     slug: string;
 };
 
@@ -2511,6 +4471,7 @@ type SkillShortcutData = ShortcutDataBase<"skill"> & {
 
 type ActionShortcutData = ShortcutDataBase<"action"> & {
     itemId: string;
+    itemRef?: ShortcutItemReference;
     name: string;
     img: string;
     effectUuid: string | undefined;
@@ -2526,17 +4487,34 @@ type GenericConsumableShortcutData = ConsumableShortcutDataBase & {
 
 type TemporaryConsumableShortcutData = ConsumableShortcutDataBase & {
     itemId: string;
+    itemRef?: ShortcutItemReference;
 };
 
 type ConsumableShortcutData = GenericConsumableShortcutData | TemporaryConsumableShortcutData;
 
+type ComboStepData = FillShortcutData<Exclude<ShortcutData, ComboShortcutData>>;
+
+type ComboShortcutData = ShortcutDataBase<"combo"> & {
+    name: string;
+    steps: ComboStepData[];
+};
+
+type MacroShortcutData = ShortcutDataBase<"macro"> & {
+    macroUuid: string;
+    sourceId: string | undefined;
+    name: string;
+    img: string;
+};
+
 type ShortcutData =
     | ConsumableShortcutData
     | AttackShortcutData
     | ToggleShortcutData
     | ActionShortcutData
     | SpellShortcutData
-    | SkillShortcutData;
+    | SkillShortcutData
+    | MacroShortcutData
+    | ComboShortcutData;
 
 type BaseShortCut<T extends ShortcutType> = ShortcutDataBase<T> & {
     name: string;
@@ -2587,6 +4565,17 @@ type ActionShortcut = BaseShortCut<"action"> &
         }>;
     };
 
+type ComboShortcut = BaseShortCut<"combo"> &
+    ComboShortcutData & {
+        stepShortcuts: (Shortcut | EmptyShortcut)[];
+        cost: CostValue;
+    };
+
+type MacroShortcut = BaseShortCut<"macro"> &
+    MacroShortcutData & {
+        macro: Macro | null;
+    };
+
 type ToggleShortcut = BaseShortCut<"toggle"> &
     ToggleShortcutData & {
         item: ItemPF2e | undefined;
@@ -2637,7 +4626,9 @@ type Shortcut =
     | ToggleShortcut
     | ActionShortcut
     | SpellShortcut
-    | SkillShortcut;
+    | SkillShortcut
+    | MacroShortcut
+    | ComboShortcut;
 
 type EmptyShortcut = { index: string; groupIndex: string; isEmpty: true };
 
@@ -2648,15 +4639,23 @@ type ShortcutGroup = {
 
 type RomanRank = (typeof ROMAN_RANKS)[number];
 
+type EffectsGroupSlug = (typeof EFFECTS_GROUPS)[number];
+
+type EffectsGroupItem = AfflictionPF2e | ConditionPF2e | EffectPF2e;
+
+type EffectExpiry = "start" | "end";
+
+type EffectsGroup = {
+    slug: string;
+    header: { label: string; icon: string } | undefined;
+    collapsed: boolean;
+    effects: EffectsGroupItem[];
+    descriptions: string[];
+    expiring: (string | undefined)[];
+};
+
 type EffectsContext = PersistentContext & {
-    afflictions: AfflictionPF2e[];
-    conditions: ConditionPF2e[];
-    effects: EffectPF2e[];
-    descriptions: {
-        afflictions: string[];
-        conditions: string[];
-        effects: string[];
-    };
+    groups: EffectsGroup[];
     instructions: Record<string, string>;
     user: { isGM: boolean };
 };
@@ -2667,12 +4666,68 @@ type MenuActionEvent =
     | "toggle-hotbar-lock"
     | "open-sheet"
     | "select-actor"
-    | "toggle-clean";
+    | "toggle-clean"
+    | "toggle-multi-actor"
+    | "open-vehicle-hud";
 
 type MenuContext = PersistentContext & {
+    history: { uuid: string; name: string; img: string; isCurrent: boolean }[];
+    vehicle: string | undefined;
     hotbarLocked: boolean;
     hasSavedActor: boolean;
     setActorTooltip: string;
+    multiActor: boolean;
+    groupTooltip: string;
+};
+
+type GroupStrip = {
+    uuid: string;
+    name: string;
+    img: string;
+    isFocused: boolean;
+    health: HealthData | undefined;
+    shortcuts: Shortcut[];
+    effects: { name: string; img: string; value: number | string | undefined }[];
+};
+
+type GroupContext = PersistentContext & {
+    strips: GroupStrip[];
+};
+
+type CombatTurnData = {
+    round: number;
+    combatantId: string | null;
+};
+
+type TurnChecklist = {
+    phase: "start" | "end";
+    actorUuid: string;
+    combatantId: string;
+    round: number;
+    resolved: string[];
+    rolled: string[];
+};
+
+type ChecklistAction =
+    | "roll-persistent"
+    | "recover-persistent"
+    | "decrease-condition"
+    | "remove-effect"
+    | "sustain-effect"
+    | "check";
+
+type ChecklistItem = {
+    id: string;
+    label: string;
+    img?: string;
+    icon?: string;
+    resolved?: boolean;
+    actions: { slug: ChecklistAction; icon: string; label: string }[];
+};
+
+type ChecklistContext = PersistentContext & {
+    title: string;
+    items: ChecklistItem[];
 };
 
 type PortraitContext = PersistentContext &
@@ -2680,13 +4735,32 @@ type PortraitContext = PersistentContext &
     StatsHeaderExtras & {
         avatar: string;
         name: string;
+        economy: ActionEconomy | undefined;
     };
 
+type ActionsSpent = {
+    actions: number;
+    reaction: boolean;
+};
+
+type ActionEconomy = {
+    actions: boolean[];
+    reaction: boolean;
+    tooltip: string;
+};
+
 type MainContext = PersistentContext &
     StatsAdvanced & {
         sidebars: SidebarMenu[];
         shortcutGroups: ShortcutGroup[];
         noShortcuts: boolean;
+        staleShortcuts: number;
+        pages: {
+            current: ShortcutPage;
+            index: number;
+            total: number;
+            tooltip: string;
+        };
         isVirtual: boolean;
         isAutoFill: boolean;
         isOwnerShortcuts: boolean;
@@ -2697,7 +4771,7 @@ type MainContext = PersistentContext &
 
 type PersistentTemplates = { name: PartName; element: HTMLElement }[];
 
-type PartName = "menu" | "main" | "portrait" | "effects";
+type PartName = "menu" | "main" | "portrait" | "effects" | "group" | "checklist";
 
 type PersistentHudActor = CharacterPF2e | NPCPF2e;
 
@@ -2706,6 +4780,9 @@ type PersistentRenderOptions = Omit<BaseActorRenderOptions, "parts"> & {
     cleaned: boolean;
     showUsers: boolean;
     showEffects: boolean;
+    multiActor: boolean;
+    turnChecklist: boolean;
+    layout: PersistentLayout;
 };
 
 type Part<TContext extends PersistentContext> = {
@@ -2723,6 +4800,8 @@ type Parts = {
     portrait: Part<PortraitContext>;
     main: Part<MainContext>;
     effects: Part<EffectsContext>;
+    group: Part<GroupContext>;
+    checklist: Part<ChecklistContext>;
 };
 
 type PersistentContext = Omit<BaseActorContext<PersistentHudActor>, "actor" | "hasActor"> & {
@@ -2751,11 +4830,31 @@ type SkillDropData = Partial<SkillVariantDataset> & {
     option?: string;
 };
 
-type AutoSetSetting = "disabled" | "select" | "combat";
-type AutoFillSetting = "one" | "two";
+type AutoSetSetting = "disabled" | "select" | "combat" | "ownedCombat" | "party";
+
+type PersistentLayout = (typeof LAYOUTS)[number];
+
+type DraggablePart = (typeof DRAGGABLE_PARTS)[number];
+
+type PartPosition = {
+    left: number;
+    top: number;
+};
+
+type PartPositions = Partial<Record<DraggablePart, PartPosition>>;
+
+type SetActorOptions = {
+    token?: Token;
+    skipSave?: boolean;
+    skipHistory?: boolean;
+    force?: boolean;
+};
 
 type PersistentUserSetting = {
     selected: string;
+    history: string[];
+    group: string[];
+    autoFillRules: AutoFillRule[];
 };
 
 type PersistentSettings = BaseActorSettings &
@@ -2767,15 +4866,21 @@ type PersistentSettings = BaseActorSettings &
         showUsers: boolean;
         autoSet: AutoSetSetting;
         autoFillNpc: boolean;
-        autoFillType: AutoFillSetting;
         ownerShortcuts: boolean;
         showEffects: boolean;
         shiftEffects: boolean;
-        autoFillActions: boolean;
-        autoFillReactions: boolean;
+        groupEffects: boolean;
+        sortEffects: "none" | "duration" | "name";
+        collapsedEffects: string[];
         shortcutSlots: number;
         keepLast: boolean;
+        multiActor: boolean;
+        turnChecklist: boolean;
+        actionTracker: boolean;
+        cycleActors: "history" | "party" | "scene";
+        layout: PersistentLayout;
+        positions: PartPositions;
     };
 
 export { PF2eHudPersistent };
-export type { AutoSetSetting };
+export type { AutoSetSetting, ShortcutData, UserShortcutsData };
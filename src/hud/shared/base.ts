@@ -1,4 +1,13 @@
-import { R, canObserveActor, getSetting, htmlClosest, signedInteger } from "foundry-pf2e";
+import {
+    R,
+    canObserveActor,
+    createHTMLElement,
+    getSetting,
+    htmlClosest,
+    objectHasKey,
+    signedInteger,
+} from "foundry-pf2e";
+import { hud } from "../../main";
 
 const IWR_DATA = [
     { type: "immunities", icon: "fa-solid fa-ankh", label: "PF2E.ImmunitiesLabel" },
@@ -23,6 +32,8 @@ const STATISTICS = [
     { slug: "athletics", icon: "fa-solid fa-hand-fist" },
 ] as const;
 
+const HAZARD_STATISTICS = ["fortitude", "reflex", "will", "stealth"];
+
 function getHealth(actor: ActorPF2e): HealthData | undefined {
     const hp = actor.attributes.hp as CharacterHitPoints | undefined;
     if (!hp?.max) return;
@@ -69,10 +80,82 @@ function getStatsHeader(actor: ActorPF2e): StatsHeader {
         ac: isArmy ? actor.system.ac.value : actor.attributes.ac?.value,
         scouting: isArmy ? signedInteger(actor.scouting.mod) : undefined,
         hardness: actor.isOfType("vehicle", "hazard") ? actor.attributes.hardness : undefined,
+        hazard: actor.isOfType("hazard") ? getHazardDetails(actor) : undefined,
     };
     return data;
 }
 
+function getHazardDetails(actor: HazardPF2e): HazardDetails {
+    const { disable, routine, reset } = actor.system.details;
+
+    return {
+        isComplex: actor.isComplex,
+        disable: getInlineChecks(disable ?? ""),
+        routine: routine?.trim() || undefined,
+        reset: reset?.trim() || undefined,
+    };
+}
+
+/**
+ * hazard disable and vehicle piloting entries are free text, we look for inline checks first
+ * and fallback to the "DC 20 Thievery", "Thievery DC 20 (expert)" & "Sailing Lore (DC 18)"
+ * notations of older entries
+ */
+function getInlineChecks(text: string): InlineCheck[] {
+    const checks: { slug: string; dc: number }[] = [];
+
+    for (const [, params] of text.matchAll(/@Check\[([^\]]+)\]/g)) {
+        let slug: string | undefined;
+        let dc: number | undefined;
+
+        for (const param of params.split("|")) {
+            const [key, value] = param.split(":").map((x) => x.trim());
+
+            if (value === undefined) slug ??= key;
+            else if (key === "type") slug = value;
+            else if (key === "dc") dc = Number(value);
+        }
+
+        if (slug && dc) {
+            checks.push({ slug, dc });
+        }
+    }
+
+    for (const [, dc, skill] of text.matchAll(/DC\s*(\d+)\s+([a-z]+)/gi)) {
+        const slug = skill.toLowerCase();
+
+        if (objectHasKey(CONFIG.PF2E.skills, slug)) {
+            checks.push({ slug, dc: Number(dc) });
+        }
+    }
+
+    for (const [, skill, dc] of text.matchAll(/([a-z]+(?:\s+lore)?)\s*\(?DC\s*(\d+)/gi)) {
+        const slug = skill.toLowerCase().replace(/\s+/, "-");
+
+        if (objectHasKey(CONFIG.PF2E.skills, slug) || slug.endsWith("-lore")) {
+            checks.push({ slug, dc: Number(dc) });
+        }
+    }
+
+    return R.pipe(
+        checks,
+        R.uniqueBy(({ slug, dc }) => `${slug}-${dc}`),
+        R.map(({ slug, dc }) => ({ slug, dc, label: getCheckLabel(slug) }))
+    );
+}
+
+function getCheckLabel(slug: string) {
+    if (slug === "perception") {
+        return game.i18n.localize("PF2E.PerceptionLabel");
+    }
+
+    if (objectHasKey(CONFIG.PF2E.skills, slug)) {
+        return game.i18n.localize(CONFIG.PF2E.skills[slug].label);
+    }
+
+    return slug.replace(/-/g, " ").titleCase();
+}
+
 function getSpeeds(actor: ActorPF2e): StatsSpeeds {
     const speeds = actor.isOfType("creature")
         ? R.pipe(
@@ -103,17 +186,23 @@ function getSpeeds(actor: ActorPF2e): StatsSpeeds {
 
 function getStatistics(actor: ActorPF2e) {
     const useModifiers = getSetting("useModifiers");
+    const isHazard = actor.isOfType("hazard");
 
     return R.pipe(
         STATISTICS,
+        R.filter(({ slug }) => !isHazard || HAZARD_STATISTICS.includes(slug)),
         R.map(({ slug, icon }): StatsStatistic | undefined => {
             const statistic = actor.getStatistic(slug);
             if (!statistic) return;
+
+            // a hazard stealth is only ever used as a DC against the perception of the PCs
+            const useDC = !useModifiers || (isHazard && slug === "stealth");
+
             return {
                 slug,
                 icon,
                 label: statistic.label,
-                value: useModifiers ? signedInteger(statistic.mod) : statistic.dc.value,
+                value: useDC ? statistic.dc.value : signedInteger(statistic.mod),
             };
         }),
         R.filter(R.isTruthy)
@@ -146,6 +235,57 @@ function getItemFromElement<T extends ItemPF2e>(
     return item as T | null | Promise<T | null>;
 }
 
+function getActorDragData(actor: ActorPF2e, item?: ItemPF2e | null): Record<string, JSONValue> {
+    return {
+        actorId: actor.id,
+        actorUUID: actor.uuid,
+        sceneId: canvas.scene?.id ?? null,
+        tokenId: actor.token?.id ?? null,
+        ...item?.toDragData(),
+    };
+}
+
+function setDragData(
+    event: DragEvent,
+    target: HTMLElement,
+    imgSrc: string,
+    data: Record<string, JSONValue>
+) {
+    if (!event.dataTransfer) return;
+
+    const draggable = createHTMLElement("div", {
+        classes: ["pf2e-hud-draggable"],
+        innerHTML: `<img src="${imgSrc}">`,
+    });
+
+    document.body.append(draggable);
+    event.dataTransfer.setDragImage(draggable, 16, 16);
+    event.dataTransfer.setData("text/plain", JSON.stringify(data));
+
+    target.addEventListener("dragend", () => draggable.remove(), { once: true });
+}
+
+/**
+ * the character of the persistent HUD takes priority over the assigned one
+ * so the GM can roll for whoever they are currently managing
+ * the GM usually has neither, the controlled tokens are used instead
+ */
+/**
+ * the persistent actor first, then the assigned character and finally the selected creature
+ * which is ignored when several are selected since their order isn't something the user sees
+ */
+function getSelectedCharacter(): CreaturePF2e | null {
+    const isCreature = (actor: Maybe<ActorPF2e>): actor is CreaturePF2e => {
+        return !!actor?.isOfType("creature");
+    };
+
+    const controlled = canvas.ready ? canvas.tokens.controlled.map((token) => token.actor) : [];
+    const selected = R.only(controlled.filter(isCreature));
+    const candidates = [hud.persistent.actor, game.user.character, selected];
+
+    return candidates.find(isCreature) ?? null;
+}
+
 function userCanObserveActor(actor: ActorPF2e) {
     return (
         canObserveActor(actor, true) ||
@@ -177,6 +317,20 @@ type StatsHeader = {
     ac: number | undefined;
     hardness: number | undefined;
     scouting: string | undefined;
+    hazard: HazardDetails | undefined;
+};
+
+type InlineCheck = {
+    slug: string;
+    dc: number;
+    label: string;
+};
+
+type HazardDetails = {
+    isComplex: boolean;
+    disable: InlineCheck[];
+    routine: string | undefined;
+    reset: string | undefined;
 };
 
 type HealthData = {
@@ -202,11 +356,23 @@ type HealthData = {
 
 export {
     IWR_DATA,
+    getActorDragData,
     getHealth,
+    getInlineChecks,
     getItemFromElement,
+    getSelectedCharacter,
     getSpeeds,
     getStatistics,
     getStatsHeader,
+    setDragData,
     userCanObserveActor,
 };
-export type { HealthData, StatsHeader, StatsSpeed, StatsSpeeds, StatsStatistic };
+export type {
+    HazardDetails,
+    HealthData,
+    InlineCheck,
+    StatsHeader,
+    StatsSpeed,
+    StatsSpeeds,
+    StatsStatistic,
+};
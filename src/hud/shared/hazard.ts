@@ -0,0 +1,79 @@
+import { R, addListenerAll, subLocalize, warn } from "foundry-pf2e";
+import { HazardDetails, InlineCheck, getSelectedCharacter } from "./base";
+
+const localize = subLocalize("token.hazard");
+
+async function getHazardContext(
+    actor: HazardPF2e,
+    details: HazardDetails
+): Promise<HazardContext> {
+    const roller = getSelectedCharacter();
+
+    const disable = details.disable.map((check): HazardDisableCheckContext => {
+        const statistic = roller?.getStatistic(check.slug);
+        const tooltip = !roller
+            ? localize("noActor")
+            : statistic
+            ? localize("disable.tooltip", { name: roller.name, ...check })
+            : localize("disable.missing", { name: roller.name, statistic: check.label });
+
+        return {
+            ...check,
+            tooltip,
+            disabled: !statistic,
+        };
+    });
+
+    return {
+        disable,
+        routine: await getRoutineReminder(actor, details),
+    };
+}
+
+/**
+ * only the GM needs to be reminded of what the hazard does on its turn
+ */
+async function getRoutineReminder(actor: HazardPF2e, { routine, reset }: HazardDetails) {
+    if (!game.user.isGM || !actor.inCombat || !routine) return;
+
+    const sections = [
+        `<h4>${localize("routine")}</h4>${routine}`,
+        reset ? `<h4>${localize("reset")}</h4>${reset}` : undefined,
+    ];
+
+    return TextEditor.enrichHTML(R.filter(sections, R.isTruthy).join(""), {
+        rollData: actor.getRollData(),
+    });
+}
+
+function addHazardListeners(actor: HazardPF2e, html: HTMLElement) {
+    addListenerAll(html, "[data-action='roll-disable']:not(.disabled)", (event, el) => {
+        const roller = getSelectedCharacter();
+        if (!roller) {
+            return warn("token.hazard.noActor");
+        }
+
+        const slug = el.dataset.statistic ?? "";
+        const statistic = roller.getStatistic(slug);
+        if (!statistic) return;
+
+        statistic.roll({
+            event,
+            dc: { value: Number(el.dataset.dc) },
+            extraRollOptions: ["action:disable-device"],
+        });
+    });
+}
+
+type HazardDisableCheckContext = InlineCheck & {
+    tooltip: string;
+    disabled: boolean;
+};
+
+type HazardContext = {
+    disable: HazardDisableCheckContext[];
+    routine: string | undefined;
+};
+
+export { addHazardListeners, getHazardContext };
+export type { HazardContext };
@@ -0,0 +1,248 @@
+import {
+    R,
+    addListener,
+    addListenerAll,
+    htmlClosest,
+    htmlQuery,
+    subLocalize,
+    templateLocalize,
+    waitDialog,
+    warn,
+} from "foundry-pf2e";
+import { hud } from "../../main";
+import { HealthData, getHealth } from "./base";
+
+const localize = subLocalize("token.inventory");
+
+const COINS = ["pp", "gp", "sp", "cp"] as const;
+
+let lastRecipient: string | undefined;
+
+function getInventoryContext(actor: LootPF2e | PartyPF2e): InventoryContext {
+    const isParty = actor.isOfType("party");
+
+    const items = R.pipe(
+        [...actor.inventory],
+        R.filter((item) => !item.isInContainer),
+        R.sortBy(R.prop("name")),
+        R.map(
+            (item): InventoryItem => ({
+                id: item.id,
+                img: item.img,
+                name: item.name,
+                quantity: item.quantity,
+                canSplit: item.quantity > 1,
+            })
+        )
+    );
+
+    const recipients = getRecipients(actor);
+    const recipient = recipients.find(({ uuid }) => uuid === lastRecipient) ?? recipients[0];
+    const coins = actor.inventory.coins;
+
+    return {
+        isParty,
+        items,
+        recipients: recipients.map(({ uuid, name }) => ({ value: uuid, label: name })),
+        recipient: recipient?.uuid,
+        canTake: !!getUserCharacter(actor),
+        coins: isParty
+            ? R.pipe(
+                  COINS,
+                  R.filter((denomination) => coins[denomination] > 0),
+                  R.map((denomination) => ({
+                      value: coins[denomination],
+                      label: game.i18n.localize(CONFIG.PF2E.currencies[denomination]),
+                  }))
+              )
+            : [],
+        members: isParty ? actor.members.map(getMemberData) : [],
+        i18n: templateLocalize("token.inventory"),
+    };
+}
+
+function getMemberData(member: CreaturePF2e): InventoryMember {
+    return {
+        uuid: member.uuid,
+        img: member.img,
+        name: member.name,
+        health: getHealth(member),
+        heroPoints: member.isOfType("character") ? member.heroPoints : undefined,
+    };
+}
+
+/**
+ * the actors the current user could send items to, the assigned character always comes first
+ */
+function getRecipients(actor: LootPF2e | PartyPF2e) {
+    const candidates = [
+        game.user.character,
+        ...canvas.tokens.controlled.map((token) => token.actor),
+        ...(game.actors.party?.members ?? []),
+    ];
+
+    return R.pipe(
+        candidates,
+        R.filter(
+            (candidate): candidate is ActorPF2e =>
+                !!candidate &&
+                candidate.uuid !== actor.uuid &&
+                candidate.isOwner &&
+                candidate.isOfType("character", "npc", "loot", "party")
+        ),
+        R.uniqueBy(R.prop("uuid"))
+    );
+}
+
+function getUserCharacter(actor: LootPF2e | PartyPF2e) {
+    const character = game.user.character;
+    return character && character.uuid !== actor.uuid ? character : null;
+}
+
+function addInventoryListeners(actor: LootPF2e | PartyPF2e, html: HTMLElement) {
+    const getItem = (el: HTMLElement) => {
+        const itemId = htmlClosest(el, "[data-item-id]")?.dataset.itemId ?? "";
+        return actor.inventory.get(itemId);
+    };
+
+    const getRecipient = () => {
+        const uuid = htmlQuery<HTMLSelectElement>(html, "select[name='recipient']")?.value;
+        const recipient = uuid ? fromUuidSync<ActorPF2e>(uuid) : null;
+        if (!recipient) warn("token.inventory.noRecipient");
+        return recipient;
+    };
+
+    addListener(html, "select[name='recipient']", "change", (event, el) => {
+        lastRecipient = (el as HTMLSelectElement).value;
+    });
+
+    addListenerAll(html, "[data-action]", async (event, el) => {
+        const action = el.dataset.action as InventoryAction;
+
+        switch (action) {
+            case "take-item": {
+                const item = getItem(el);
+                const character = getUserCharacter(actor);
+                if (!item || !character) return;
+
+                return transferItem(actor, character, item, item.quantity);
+            }
+
+            case "transfer-item": {
+                const item = getItem(el);
+                const recipient = getRecipient();
+                if (!item || !recipient) return;
+
+                return transferItem(actor, recipient, item, item.quantity);
+            }
+
+            case "split-item": {
+                const item = getItem(el);
+                const recipient = getRecipient();
+                if (!item || !recipient) return;
+
+                const quantity = await promptQuantity(item, recipient);
+                if (!quantity) return;
+
+                return transferItem(actor, recipient, item, quantity);
+            }
+
+            case "open-member-hud": {
+                const uuid = htmlClosest(el, "[data-member-uuid]")?.dataset.memberUuid ?? "";
+                const member = fromUuidSync<ActorPF2e>(uuid);
+                const token = member?.getActiveTokens(false, false).at(0);
+
+                if (token && hud.token.isValidToken(token)) {
+                    hud.token.setToken(token);
+                } else {
+                    member?.sheet.render(true);
+                }
+
+                break;
+            }
+        }
+    });
+}
+
+/**
+ * same as the system sheet, the transfer is requested to the GM when both actors aren't owned
+ */
+async function transferItem(
+    source: LootPF2e | PartyPF2e,
+    target: ActorPF2e,
+    item: PhysicalItemPF2e,
+    quantity: number
+) {
+    if (source.isOwner && target.isOwner) {
+        return source.transferItemToActor(target, item, quantity);
+    }
+
+    if (!game.users.some((user) => user.isGM && user.active)) {
+        return warn("token.inventory.noGM");
+    }
+
+    game.socket.emit("system.pf2e", {
+        request: "itemTransfer",
+        data: {
+            source: { tokenId: source.token?.id, actorId: source.id, itemId: item.id },
+            target: { tokenId: target.token?.id, actorId: target.id },
+            quantity,
+        },
+    });
+}
+
+async function promptQuantity(item: PhysicalItemPF2e, recipient: ActorPF2e) {
+    const result = await waitDialog<{ quantity: number }>({
+        title: localize("split.title", { name: item.name }),
+        content: "dialogs/inventory-split",
+        classes: ["pf2e-hud-inventory-split"],
+        yes: {
+            label: localize("split.yes", { name: recipient.name }),
+            default: true,
+        },
+        no: {
+            label: localize("split.cancel"),
+        },
+        data: {
+            max: item.quantity,
+            quantity: Math.floor(item.quantity / 2),
+            i18n: templateLocalize("token.inventory.split"),
+        },
+    });
+
+    if (!result) return;
+
+    return Math.clamp(Math.floor(result.quantity), 0, item.quantity);
+}
+
+type InventoryAction = "take-item" | "transfer-item" | "split-item" | "open-member-hud";
+
+type InventoryItem = {
+    id: string;
+    img: string;
+    name: string;
+    quantity: number;
+    canSplit: boolean;
+};
+
+type InventoryMember = {
+    uuid: string;
+    img: string;
+    name: string;
+    health: HealthData | undefined;
+    heroPoints: ValueAndMax | undefined;
+};
+
+type InventoryContext = {
+    isParty: boolean;
+    items: InventoryItem[];
+    recipients: { value: string; label: string }[];
+    recipient: string | undefined;
+    canTake: boolean;
+    coins: { value: number; label: string }[];
+    members: InventoryMember[];
+    i18n: ReturnType<typeof templateLocalize>;
+};
+
+export { addInventoryListeners, getInventoryContext };
+export type { InventoryContext };
@@ -0,0 +1,169 @@
+import { R, addListenerAll, htmlClosest, subLocalize, warn } from "foundry-pf2e";
+import { hud } from "../../main";
+import {
+    HealthData,
+    InlineCheck,
+    getHealth,
+    getInlineChecks,
+    getSelectedCharacter,
+    getSpeeds,
+} from "./base";
+
+const localize = subLocalize("token.vehicle");
+
+const PILOTING_DOMAINS = ["piloting", "piloting-check"];
+
+function getVehicleContext(actor: VehiclePF2e, token: TokenPF2e): VehicleContext {
+    const { crew, passengers, pilotingCheck } = actor.system.details;
+    const pilot = getSelectedCharacter();
+
+    const piloting = getInlineChecks(pilotingCheck ?? "").map((check): VehicleCheck => {
+        const statistic = pilot?.getStatistic(check.slug);
+        const tooltip = !pilot
+            ? localize("noPilot")
+            : statistic
+            ? localize("piloting.tooltip", { name: pilot.name, ...check })
+            : localize("piloting.missing", { name: pilot.name, statistic: check.label });
+
+        return {
+            ...check,
+            tooltip,
+            disabled: !statistic,
+        };
+    });
+
+    const aboard = getAboardTokens(token).map(
+        (aboardToken): VehicleAboard => ({
+            id: aboardToken.id,
+            name: aboardToken.document.name,
+            img: aboardToken.document.texture.src ?? aboardToken.actor!.img,
+            health: getHealth(aboardToken.actor!),
+        })
+    );
+
+    const capacity = R.pipe(
+        [
+            crew ? localize("crew", { crew }) : undefined,
+            passengers ? localize("passengers", { passengers }) : undefined,
+        ],
+        R.filter(R.isTruthy)
+    );
+
+    return {
+        speed: getSpeeds(actor).speedNote,
+        piloting,
+        aboard,
+        capacity: capacity.join("<br>") || undefined,
+    };
+}
+
+function getAboardTokens(vehicleToken: TokenPF2e) {
+    const bounds = getDocumentBounds(vehicleToken);
+    return canvas.tokens.placeables.filter((token) => isAboard(bounds, vehicleToken, token));
+}
+
+function getVehicleToken(actor: ActorPF2e) {
+    const tokens = actor.getActiveTokens();
+    if (!tokens.length) return;
+
+    return canvas.tokens.placeables.find((vehicleToken) => {
+        if (!vehicleToken.actor?.isOfType("vehicle")) return false;
+
+        const bounds = getDocumentBounds(vehicleToken);
+        return tokens.some((token) => isAboard(bounds, vehicleToken, token));
+    });
+}
+
+/**
+ * every token whose center sits on the vehicle is considered aboard
+ */
+function isAboard(bounds: PIXI.Rectangle, vehicleToken: TokenPF2e, token: TokenPF2e) {
+    if (token === vehicleToken || !token.visible || !token.actor) return false;
+    if (token.actor.isOfType("vehicle")) return false;
+
+    const { x, y, width, height } = getDocumentBounds(token);
+    return bounds.contains(x + width / 2, y + height / 2);
+}
+
+/**
+ * the document is already up to date while the token is still being animated
+ */
+function getDocumentBounds(token: TokenPF2e) {
+    const { x, y, width, height } = token.document;
+    const size = canvas.grid.size;
+
+    return new PIXI.Rectangle(x, y, width * size, height * size);
+}
+
+/**
+ * the vehicle's own rule elements can target its piloting checks
+ */
+function getPilotingParams(vehicle: VehiclePF2e, rollOptions: string[]) {
+    const extraRollOptions = vehicle.getSelfRollOptions("origin");
+    const test = new Set([...rollOptions, ...extraRollOptions]);
+
+    const modifiers = R.pipe(
+        PILOTING_DOMAINS,
+        R.flatMap((domain) => vehicle.synthetics.modifiers[domain] ?? []),
+        R.map((deferred) => deferred({ test })),
+        R.filter(R.isTruthy)
+    );
+
+    return { modifiers, extraRollOptions };
+}
+
+function addVehicleListeners(actor: VehiclePF2e, html: HTMLElement) {
+    addListenerAll(html, "[data-action='roll-piloting']:not(.disabled)", (event, el) => {
+        const pilot = getSelectedCharacter();
+        if (!pilot) {
+            return warn("token.vehicle.noPilot");
+        }
+
+        const statistic = pilot.getStatistic(el.dataset.statistic ?? "");
+        if (!statistic) return;
+
+        const rollOptions = pilot.getRollOptions(statistic.check.domains);
+        const { modifiers, extraRollOptions } = getPilotingParams(actor, rollOptions);
+
+        statistic.roll({
+            event,
+            origin: actor,
+            modifiers,
+            extraRollOptions,
+            dc: { value: Number(el.dataset.dc) },
+        });
+    });
+
+    addListenerAll(html, "[data-action='open-aboard-hud']", (event, el) => {
+        const tokenId = htmlClosest(el, "[data-token-id]")?.dataset.tokenId ?? "";
+        const token = canvas.tokens.get(tokenId);
+
+        if (token && hud.token.isValidToken(token)) {
+            hud.token.setToken(token);
+        } else {
+            token?.actor?.sheet.render(true);
+        }
+    });
+}
+
+type VehicleCheck = InlineCheck & {
+    tooltip: string;
+    disabled: boolean;
+};
+
+type VehicleAboard = {
+    id: string;
+    name: string;
+    img: string;
+    health: HealthData | undefined;
+};
+
+type VehicleContext = {
+    speed: string | undefined;
+    piloting: VehicleCheck[];
+    aboard: VehicleAboard[];
+    capacity: string | undefined;
+};
+
+export { addVehicleListeners, getVehicleContext, getVehicleToken };
+export type { VehicleContext };
@@ -21,6 +21,8 @@ import {
     toggleStance,
     tupleHasValue,
 } from "foundry-pf2e";
+import { hud } from "../../main";
+import { addBlastsPreviewListeners, addStrikesPreviewListeners } from "../../utils/hit-preview";
 import { getNpcStrikeImage } from "../../utils/npc-attacks";
 import { PF2eHudTextPopup } from "../popup/text";
 import { getItemFromElement } from "../shared/base";
@@ -290,6 +292,14 @@ class PF2eHudSidebarActions extends PF2eHudSidebar {
             return getStrikeVariant<T>(strike, button, readyOnly);
         };
 
+        addStrikesPreviewListeners(html, (button) => getStrike(button));
+
+        addBlastsPreviewListeners(html, (button) => {
+            const element = htmlClosest(button, ".item")?.dataset.element;
+            if (!actor.isOfType("character") || !objectHasKey(elementTraits, element)) return;
+            return getBlastData(actor, element);
+        });
+
         const getUUID = (button: HTMLElement) => {
             return elementDataset(htmlClosest(button, ".item")!).uuid;
         };
@@ -532,11 +542,11 @@ async function getBlastData(
 
             return {
                 ...config,
-                attack: (event: MouseEvent, mapIncreases: number, el: HTMLElement) => {
+                attack: (event: MouseEvent, mapIncreases: number, melee: boolean) => {
                     return blastData.attack({
                         event,
                         mapIncreases,
-                        melee: el.dataset.melee === "true",
+                        melee,
                         damageType,
                         element: config.element,
                     });
@@ -569,6 +579,23 @@ async function getBlastData(
     return elementTrait ? blasts[0] : blasts;
 }
 
+/**
+ * strikes aren't always backed by an actor item (basic unarmed, rule elements, handwraps)
+ * so they are looked up in the actor's actions instead
+ */
+function findStrikeAction(actor: ActorPF2e, { id, slug }: { id: string; slug: string }) {
+    const actorStrikes = actor.system.actions ?? [];
+
+    const exactMatch = actorStrikes.find((s) => s.item.id === id && s.slug === slug);
+    if (exactMatch) return exactMatch;
+
+    const match = actorStrikes.find((s) => s.slug === slug);
+    if (!match) return;
+
+    const realItem = actor.items.get(match.item.id);
+    return realItem && realItem.type !== match.item.type ? match : undefined;
+}
+
 async function getStrikeData(
     actor: ActorPF2e,
     options: { id: string; slug: string }
@@ -581,19 +608,10 @@ async function getStrikeData(
     const rollData = actor.getRollData();
 
     const actions = (() => {
-        const actorStrikes = actor.system.actions ?? [];
-        if (!options) return actorStrikes;
-
-        const exactMatch = actorStrikes.find(
-            (s) => s.item.id === options.id && s.slug === options.slug
-        );
-        if (exactMatch) return [exactMatch];
-
-        const match = actorStrikes.find((s) => s.slug === options.slug);
-        if (!match) return [];
+        if (!options) return actor.system.actions ?? [];
 
-        const realItem = actor.items.get(match.item.id);
-        return realItem && realItem.type !== match.item.type ? [match] : [];
+        const match = findStrikeAction(actor, options);
+        return match ? [match] : [];
     })();
 
     const isCharacter = actor.isOfType("character");
@@ -696,15 +714,15 @@ function getActionFrequency(action: FeatPF2e | AbilityItemPF2e) {
     };
 }
 
-async function useAction(event: Event, item: ActionItem) {
+async function useAction(event: Event, item: ActionItem): Promise<boolean> {
     const frequency = item.frequency;
     if (frequency?.max && frequency.value) {
         item.update({ "system.frequency.value": frequency.value - 1 });
     }
 
     if (item.system.selfEffect) {
-        createSelfEffectMessage(item, eventToRollMode(event));
-        return;
+        await createSelfEffectMessage(item, eventToRollMode(event));
+        return true;
     }
 
     const toolbelt = getActiveModule("pf2e-toolbelt");
@@ -712,11 +730,20 @@ async function useAction(event: Event, item: ActionItem) {
         ? await toolbelt.api.actionable.getActionMacro(item)
         : undefined;
 
+    let used: boolean;
+
     if (macro) {
-        macro.execute({ actor: item.actor, item });
+        const result: unknown = await macro.execute({ actor: item.actor, item });
+        used = result !== false && result !== null;
     } else {
-        item.toMessage(event);
+        used = !!(await item.toMessage(event));
+    }
+
+    if (used) {
+        hud.persistent.trackActionUse(item);
     }
+
+    return used;
 }
 
 type ActionItem = FeatPF2e<ActorPF2e> | AbilityItemPF2e<ActorPF2e>;
@@ -742,7 +769,7 @@ type ActionBlast = ElementalBlastSheetConfig & {
     attack: (
         event: MouseEvent,
         mapIncreases: number,
-        el: HTMLElement
+        melee: boolean
     ) => Promise<Rolled<CheckRoll> | null>;
     damage: (event: MouseEvent, el: HTMLElement) => Promise<string | Rolled<DamageRoll> | null>;
 };
@@ -830,6 +857,7 @@ type ActionsContext = SidebarContext & {
 
 export {
     PF2eHudSidebarActions,
+    findStrikeAction,
     getActionFrequency,
     getBlastData,
     getStrikeData,
@@ -15,11 +15,12 @@ import {
     templatePath,
     unownedItemtoMessage,
 } from "foundry-pf2e";
+import { activateMapVariants } from "../../utils/map";
 import { PF2eHudBaseActor } from "../base/actor";
 import { IPF2eHudAdvanced } from "../base/advanced";
 import { PF2eHudItemPopup } from "../popup/item";
 import { addDragoverListener } from "../shared/advanced";
-import { getItemFromElement } from "../shared/base";
+import { getActorDragData, getItemFromElement, setDragData } from "../shared/base";
 import { addEnterKeyListeners } from "../shared/listeners";
 
 const SIDEBARS = [
@@ -306,6 +307,8 @@ abstract class PF2eHudSidebar extends foundry.applications.api
         const bounds = element.getBoundingClientRect();
         const center: Point = { x: anchor.x, y: anchor.y };
         const limits = {
+            left: anchor.limits?.left ?? 0,
+            top: anchor.limits?.top ?? 0,
             right: anchor.limits?.right ?? window.innerWidth,
             bottom: anchor.limits?.bottom ?? window.innerHeight,
         };
@@ -315,10 +318,10 @@ abstract class PF2eHudSidebar extends foundry.applications.api
 
         if (position.left + bounds.width > limits.right)
             position.left = limits.right - bounds.width;
-        if (position.left < 0) position.left = 0;
+        if (position.left < limits.left) position.left = limits.left;
         if (position.top + bounds.height > limits.bottom)
             position.top = limits.bottom - bounds.height;
-        if (position.top < 0) position.top = 0;
+        if (position.top < limits.top) position.top = limits.top;
 
         element.style.setProperty("left", `${position.left}px`);
         element.style.setProperty("top", `${position.top}px`);
@@ -371,6 +374,8 @@ abstract class PF2eHudSidebar extends foundry.applications.api
             addDragoverListener(this.innerElement);
         }
 
+        activateMapVariants(html, actor);
+
         addListenerAll(html, "[data-action='send-to-chat']", async (event, el) => {
             const item = await getItemFromElement(el, actor);
             if (!item) return;
@@ -402,21 +407,9 @@ abstract class PF2eHudSidebar extends foundry.applications.api
             })();
 
             const imgSrc = el.querySelector<HTMLImageElement>(".drag-img")?.src ?? item?.img ?? "";
-            const draggable = createHTMLElement("div", {
-                classes: ["pf2e-hud-draggable"],
-                innerHTML: `<img src="${imgSrc}">`,
-            });
-
-            document.body.append(draggable);
-            event.dataTransfer.setDragImage(draggable, 16, 16);
-
             const baseDragData: Record<string, JSONValue> = {
-                actorId: this.actor.id,
-                actorUUID: this.actor.uuid,
-                sceneId: canvas.scene?.id ?? null,
-                tokenId: this.actor.token?.id ?? null,
                 fromSidebar: true,
-                ...item?.toDragData(),
+                ...getActorDragData(this.actor, item),
             };
 
             const extraDragData = this._getDragData?.(target, baseDragData, item);
@@ -425,12 +418,11 @@ abstract class PF2eHudSidebar extends foundry.applications.api
                     ? { type: "RollOption", ...el.dataset }
                     : undefined;
 
-            event.dataTransfer.setData(
-                "text/plain",
-                JSON.stringify({ ...baseDragData, ...extraDragData, ...toggleDragData })
-            );
-
-            target.addEventListener("dragend", () => draggable.remove(), { once: true });
+            setDragData(event, target, imgSrc, {
+                ...baseDragData,
+                ...extraDragData,
+                ...toggleDragData,
+            });
         });
 
         addListenerAll(html, "[data-action='item-description']", async (event, el) => {
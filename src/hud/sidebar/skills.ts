@@ -816,9 +816,9 @@ async function rollStatistic(
     event: MouseEvent,
     { variant, agile, map, option, actionId, statistic, dc }: StatisticData,
     { requireVariants, onRoll }: { requireVariants?: boolean; onRoll?: Function } = {}
-) {
+): Promise<boolean> {
     if ((actionId === "recall-knowledge" && !statistic) || actionId === "earnIncome") {
-        return;
+        return false;
     }
 
     const action = game.pf2e.actions.get(actionId) ?? game.pf2e.actions[actionId];
@@ -837,7 +837,7 @@ async function rollStatistic(
             statistic,
             agile: map ? agile : undefined,
         });
-        if (!variants) return;
+        if (!variants) return false;
 
         dc = variants.dc;
         agile = variants.agile;
@@ -863,16 +863,19 @@ async function rollStatistic(
     }
 
     if (!action) {
-        actor.getStatistic(statistic ?? "")?.roll(options);
+        const roll = await actor.getStatistic(statistic ?? "")?.roll(options);
+        if (!roll) return false;
     } else if (isInstanceOf<BaseAction>(action, "BaseAction")) {
         (options as SingleCheckActionVariantData).statistic = statistic;
-        action.use(options);
+        const results: unknown = await action.use(options);
+        if (Array.isArray(results) && !results.length) return false;
     } else if (action) {
         (options as SkillActionOptions).skill = statistic;
-        action(options);
+        await action(options);
     }
 
     onRoll?.();
+    return true;
 }
 
 let STATISTICS: { value: string; label: string }[] | undefined;
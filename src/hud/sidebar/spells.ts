@@ -10,6 +10,7 @@ import {
     MODULE,
     SummarizedSpellsData,
 } from "foundry-pf2e";
+import { addSpellsPreview } from "../../utils/hit-preview";
 import {
     getAnnotationTooltip,
     PF2eHudSidebar,
@@ -56,6 +57,8 @@ class PF2eHudSidebarSpells extends PF2eHudSidebar {
         const actor = this.actor;
         const isCharacter = actor.isOfType("character");
 
+        addSpellsPreview(html, actor);
+
         if (isCharacter || actor.isOfType("npc")) {
             addListenerAll(html, "[data-slider-action='focus']", "mousedown", (event, el) => {
                 const direction = event.button === 0 ? 1 : -1;
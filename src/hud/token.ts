@@ -29,7 +29,10 @@ import {
     getStatsHeaderExtras,
 } from "./shared/advanced";
 import { StatsHeader, getStatsHeader } from "./shared/base";
+import { HazardContext, addHazardListeners, getHazardContext } from "./shared/hazard";
+import { InventoryContext, addInventoryListeners, getInventoryContext } from "./shared/inventory";
 import { addStatsAdvancedListeners, addStatsHeaderListeners } from "./shared/listeners";
+import { VehicleContext, addVehicleListeners, getVehicleContext } from "./shared/vehicle";
 import { SidebarMenu, SidebarName, getSidebars } from "./sidebar/base";
 
 const CLOSE_OPTIONS = ["never", "sidebar", "all"] as const;
@@ -38,6 +41,14 @@ const CLOSE_CHOICES = R.mapToObj(CLOSE_OPTIONS, (option) => [
     `pf2e-hud.token.closeChoices.${option}`,
 ]);
 
+const RING_ITEM_GAP = 6;
+
+/**
+ * the ring goes clockwise from the right of the token to its left, leaving the top to the header
+ */
+const RING_PANELS = [".panel.right", ".panel.bottom", ".panel.left"] as const;
+const RING_ARC = { start: -20, end: 200 } as const;
+
 class PF2eHudToken extends makeAdvancedHUD(
     PF2eHudBaseToken<TokenSettings, TokenHudActor, TokenRenderOptions>
 ) {
@@ -47,6 +58,12 @@ class PF2eHudToken extends makeAdvancedHUD(
         { context: this }
     );
 
+    #tokenClickLeft2Wrapper = createWrapper(
+        "CONFIG.Token.objectClass.prototype._onClickLeft2",
+        this.#tokenClickLeft2,
+        { context: this, type: "MIXED" }
+    );
+
     #tokenDragLeftStartWrapper = createWrapper(
         "CONFIG.Token.objectClass.prototype._onDragLeftStart",
         this.#tokenDragLeftStart,
@@ -59,10 +76,15 @@ class PF2eHudToken extends makeAdvancedHUD(
         { context: this }
     );
 
+    #onVehicleTokensChangeDebounce = foundry.utils.debounce(() => this.render(), 50);
+
     #canvasPanHook = createHook("canvasPan", this.#onCanvasPan.bind(this));
     #renderTokenHudHook = createHook("renderTokenHUD", () => this.close());
     #canvasTearDownHook = createHook("canvasTearDown", () => this.setToken(null));
     #renderActorSheetHook = createHook("renderActorSheet", this.#onRenderActorSheet.bind(this));
+    #vehicleHooks = ["createToken", "updateToken", "deleteToken"].map((hook) =>
+        createHook(hook, this.#onVehicleTokensChangeDebounce.bind(this))
+    );
 
     #mainElement: HTMLElement | null = null;
 
@@ -89,7 +111,7 @@ class PF2eHudToken extends makeAdvancedHUD(
             {
                 key: "mode",
                 type: String,
-                choices: ["exploded", "left", "right"],
+                choices: ["exploded", "left", "right", "radial"],
                 default: "exploded",
                 scope: "client",
                 onChange: () => {
@@ -133,12 +155,12 @@ class PF2eHudToken extends makeAdvancedHUD(
         return "token";
     }
 
-    get templates(): ["hud"] {
-        return ["hud"];
+    get templates(): ["hud", "inventory"] {
+        return ["hud", "inventory"];
     }
 
     get allowedActorTypes(): (ActorType | "creature")[] {
-        return ["army", "creature", "hazard", "vehicle"];
+        return ["army", "creature", "hazard", "loot", "party", "vehicle"];
     }
 
     get mainElement() {
@@ -146,6 +168,10 @@ class PF2eHudToken extends makeAdvancedHUD(
     }
 
     get anchor(): AdvancedHudAnchor {
+        if (this.getSetting("mode") === "radial" && this.mainElement) {
+            return this.#getRadialAnchor(this.mainElement);
+        }
+
         const bounds = this.mainElement?.getBoundingClientRect() ?? {
             x: 0,
             y: 0,
@@ -159,13 +185,14 @@ class PF2eHudToken extends makeAdvancedHUD(
     }
 
     get sidebars() {
-        return this.mainElement?.querySelector<HTMLElement>(".panel.bottom") ?? null;
+        return this.mainElement?.querySelector<HTMLElement>(".panel.bottom, .ring") ?? null;
     }
 
     _onEnable(enabled: boolean = this.enabled) {
         super._onEnable(enabled);
 
         this.#tokenClickLeftWrapper.toggle(enabled);
+        this.#tokenClickLeft2Wrapper.toggle(enabled);
         this.#tokenDragLeftStartWrapper.toggle(enabled);
         this.#tokenLayerClickLeftWrapper.toggle(enabled);
 
@@ -179,14 +206,31 @@ class PF2eHudToken extends makeAdvancedHUD(
     }
 
     _onSetToken(token: TokenPF2e | null): void {
+        // the aboard list is kept up to date while the HUD is opened on a vehicle
+        const isVehicle = !!token?.actor?.isOfType("vehicle");
+
+        for (const hook of this.#vehicleHooks) {
+            hook.toggle(isVehicle);
+        }
+
         this.render(true);
     }
 
-    async _prepareContext(options: TokenRenderOptions): Promise<TokenContext | TokenContextBase> {
+    async _prepareContext(
+        options: TokenRenderOptions
+    ): Promise<TokenContext | TokenInventoryContext | TokenContextBase> {
         const parentData = await super._prepareContext(options);
         if (!parentData.hasActor) return parentData;
 
         const actor = parentData.actor;
+        if (actor.isOfType("loot", "party")) {
+            return {
+                ...parentData,
+                ...getInventoryContext(actor),
+                name: this.token.document.name,
+            };
+        }
+
         const statsHeader = getStatsHeader(actor);
         if (!statsHeader.health) return parentData;
 
@@ -204,13 +248,23 @@ class PF2eHudToken extends makeAdvancedHUD(
             sidebars,
             noSidebars: isHazard || !sidebars.some((sidebar) => !sidebar.disabled),
             name: this.token.document.name,
+            hazardHUD: actor.isOfType("hazard")
+                ? await getHazardContext(actor, statsHeader.hazard!)
+                : undefined,
+            vehicleHUD: actor.isOfType("vehicle")
+                ? getVehicleContext(actor, this.token)
+                : undefined,
         };
 
         return data;
     }
 
-    async _renderHTML(context: Partial<TokenContext>, options: TokenRenderOptions) {
-        if (!context.health) return "";
+    async _renderHTML(
+        context: Partial<TokenContext | TokenInventoryContext>,
+        options: TokenRenderOptions
+    ) {
+        if ("items" in context) return this.renderTemplate("inventory", context);
+        if (!("health" in context) || !context.health) return "";
         return this.renderTemplate("hud", context);
     }
 
@@ -228,8 +282,13 @@ class PF2eHudToken extends makeAdvancedHUD(
 
         const mode = this.getSetting("mode");
 
-        if (mode === "exploded") {
+        if (this.actor.isOfType("loot", "party")) {
+            this.#mainElement.classList.add("inventory");
+        } else if (mode === "exploded") {
             this.#mainElement.classList.add("exploded");
+        } else if (mode === "radial") {
+            this.#mainElement.classList.add("radial");
+            this.#createRing(this.#mainElement);
         } else {
             const classes = ["joined"];
             if (mode === "left") classes.push("left");
@@ -267,6 +326,11 @@ class PF2eHudToken extends makeAdvancedHUD(
     _onClose(options: ApplicationClosingOptions) {
         this.#mainElement = null;
         this.#canvasPanHook.disable();
+
+        for (const hook of this.#vehicleHooks) {
+            hook.disable();
+        }
+
         return super._onClose(options);
     }
 
@@ -308,6 +372,10 @@ class PF2eHudToken extends makeAdvancedHUD(
             mainElement.style.setProperty("top", `${mainTop}px`);
             mainElement.style.setProperty("width", `${mainWidth}px`);
             mainElement.style.setProperty("height", `${mainHeight}px`);
+
+            if (this.getSetting("mode") === "radial") {
+                this.#updateRing(mainElement, mainWidth, mainHeight);
+            }
         }
 
         return position;
@@ -358,8 +426,8 @@ class PF2eHudToken extends makeAdvancedHUD(
 
         const actor = token?.actor;
         if (
-            !actor?.isOwner ||
-            actor.isOfType("loot", "party") ||
+            !actor ||
+            !this.#canUseActor(actor) ||
             actor.sheet.rendered ||
             hud.persistent.isCurrentActor(actor, true) ||
             (hud.persistent.getSetting("autoSet") === "select" &&
@@ -385,6 +453,123 @@ class PF2eHudToken extends makeAdvancedHUD(
         return true;
     }
 
+    /**
+     * the header stays whole above the token while every entry of the other panels
+     * becomes an item of the ring
+     */
+    #createRing(mainElement: HTMLElement) {
+        const ring = createHTMLElement("div", { classes: ["ring"] });
+        const header = htmlQuery(mainElement, ":scope > .panel.top");
+
+        for (const selector of RING_PANELS) {
+            const panel = htmlQuery(mainElement, `:scope > ${selector}`);
+            if (!panel) continue;
+
+            for (const child of [...panel.children] as HTMLElement[]) {
+                if (child.tagName === "HR") continue;
+
+                child.classList.add("ring-item");
+                ring.append(child);
+            }
+        }
+
+        if (header) {
+            header.classList.add("ring-header");
+            ring.append(header);
+        }
+
+        mainElement.replaceChildren(ring);
+    }
+
+    /**
+     * the items are spread evenly along the arc, the radius grows when they wouldn't fit
+     * and everything is pushed back inside the screen when the token is near an edge
+     */
+    #updateRing(mainElement: HTMLElement, width: number, height: number) {
+        const items = [...mainElement.querySelectorAll<HTMLElement>(".ring-item")];
+        const header = htmlQuery(mainElement, ".ring-header");
+        const bounds = mainElement.getBoundingClientRect();
+        const scale = width ? bounds.width / width : 1;
+        const limits = this.#getRingLimits(bounds, scale);
+        const center = { x: width / 2, y: height / 2 };
+        const tokenRadius = Math.hypot(width, height) / 2 + RING_ITEM_GAP;
+
+        const place = (el: HTMLElement, x: number, y: number) => {
+            const left = Math.clamp(x, limits.left, limits.right - el.offsetWidth);
+            const top = Math.clamp(y, limits.top, limits.bottom - el.offsetHeight);
+
+            el.style.setProperty("left", `${left}px`);
+            el.style.setProperty("top", `${top}px`);
+        };
+
+        if (header) {
+            const x = center.x - header.offsetWidth / 2;
+            const y = center.y - tokenRadius - header.offsetHeight;
+            place(header, x, y);
+        }
+
+        if (!items.length) return;
+
+        const itemSize = Math.max(
+            ...items.map((item) => Math.max(item.offsetWidth, item.offsetHeight))
+        );
+        const arc = Math.toRadians(RING_ARC.end - RING_ARC.start);
+        const radius = Math.max(
+            tokenRadius + itemSize / 2,
+            (items.length * (itemSize + RING_ITEM_GAP)) / arc
+        );
+        const step = (RING_ARC.end - RING_ARC.start) / items.length;
+
+        for (const [index, item] of items.entries()) {
+            const angle = RING_ARC.start + step * (index + 0.5);
+            const radians = Math.toRadians(angle);
+            const x = center.x + Math.cos(radians) * radius - item.offsetWidth / 2;
+            const y = center.y + Math.sin(radians) * radius - item.offsetHeight / 2;
+
+            item.dataset.angle = String(angle);
+            place(item, x, y);
+        }
+    }
+
+    /**
+     * the screen limits converted to the coordinates of the main element
+     */
+    #getRingLimits(bounds: DOMRect, scale: number) {
+        const margin = RING_ITEM_GAP;
+
+        return {
+            left: (margin - bounds.left) / scale,
+            top: (margin - bounds.top) / scale,
+            right: (window.innerWidth - margin - bounds.left) / scale,
+            bottom: (window.innerHeight - margin - bounds.top) / scale,
+        };
+    }
+
+    /**
+     * sidebars open outward from the arc, on the side of the ring where their button sits
+     * or the side with the most room when there is no button
+     */
+    #getRadialAnchor(mainElement: HTMLElement): AdvancedHudAnchor {
+        const items = [mainElement, ...mainElement.querySelectorAll<HTMLElement>(".ring-item")];
+        const bounds = items.map((item) => item.getBoundingClientRect());
+        const left = Math.min(...bounds.map(({ left }) => left));
+        const right = Math.max(...bounds.map(({ right }) => right));
+        const top = Math.min(...bounds.map(({ top }) => top));
+        const bottom = Math.max(...bounds.map(({ bottom }) => bottom));
+
+        const button = htmlQuery(mainElement, ".ring-item[data-sidebar].active");
+        const buttonBounds = button?.getBoundingClientRect();
+        const openLeft = button
+            ? Math.cos(Math.toRadians(Number(button.dataset.angle))) < 0
+            : left > window.innerWidth - right;
+
+        return {
+            x: openLeft ? left : right,
+            y: buttonBounds ? buttonBounds.top + buttonBounds.height / 2 : (top + bottom) / 2,
+            limits: openLeft ? { right: left } : { left: right },
+        };
+    }
+
     #onRenderActorSheet(sheet: ActorSheetPF2e) {
         if (this.isCurrentActor(sheet.actor)) this.close();
     }
@@ -407,6 +592,31 @@ class PF2eHudToken extends makeAdvancedHUD(
         else this.setToken(token);
     }
 
+    /**
+     * tokens can only be clicked by their owners, other users reach the loot and party HUD
+     * with a double click which would otherwise open the sheet
+     */
+    #tokenClickLeft2(
+        token: TokenPF2e,
+        wrapped: libWrapper.RegisterCallback,
+        event: PIXI.FederatedMouseEvent
+    ) {
+        const actor = token.actor;
+
+        if (
+            !actor?.isOfType("loot", "party") ||
+            actor.isOwner ||
+            !this.#canUseActor(actor) ||
+            event.altKey ||
+            event.shiftKey ||
+            event.ctrlKey
+        ) {
+            return wrapped(event);
+        }
+
+        this.setToken(token);
+    }
+
     #tokenDragLeftStart(
         token: TokenPF2e,
         wrapped: libWrapper.RegisterCallback,
@@ -439,10 +649,39 @@ class PF2eHudToken extends makeAdvancedHUD(
         }
     }
 
+    /**
+     * loot can be looted without ownership and party members only need to observe their party
+     */
+    #canUseActor(actor: ActorPF2e) {
+        // merchants are left to the system sheet which handles the purchases
+        if (actor.isOfType("loot")) {
+            return !actor.isMerchant && (actor.isOwner || actor.isLootableBy(game.user));
+        }
+
+        if (actor.isOfType("party")) {
+            return actor.testUserPermission(game.user, "OBSERVER");
+        }
+
+        return actor.isOwner;
+    }
+
     #activateListeners(html: HTMLElement) {
-        addStatsHeaderListeners(this.actor, html, this.token);
-        addStatsAdvancedListeners(this.actor, html);
+        const actor = this.actor;
+
+        if (actor.isOfType("loot", "party")) {
+            addInventoryListeners(actor, html);
+            return;
+        }
+
+        addStatsHeaderListeners(actor, html, this.token);
+        addStatsAdvancedListeners(actor, html);
         addSidebarsListeners(this, html);
+
+        if (actor.isOfType("hazard")) {
+            addHazardListeners(actor, html);
+        } else if (actor.isOfType("vehicle")) {
+            addVehicleListeners(actor, html);
+        }
     }
 }
 
@@ -451,7 +690,7 @@ interface PF2eHudToken {
     get actor(): TokenHudActor;
 }
 
-type TokenHudActor = Exclude<ActorInstances[ActorType], LootPF2e | PartyPF2e>;
+type TokenHudActor = ActorInstances[ActorType];
 
 type TokenRenderOptions = BaseTokenRenderOptions;
 
@@ -464,6 +703,13 @@ type TokenContext = TokenContextBase &
         name: string;
         sidebars: SidebarMenu[];
         noSidebars: boolean;
+        hazardHUD: HazardContext | undefined;
+        vehicleHUD: VehicleContext | undefined;
+    };
+
+type TokenInventoryContext = TokenContextBase &
+    InventoryContext & {
+        name: string;
     };
 
 type TokenCloseOption = (typeof CLOSE_OPTIONS)[number];
@@ -471,7 +717,7 @@ type TokenCloseOption = (typeof CLOSE_OPTIONS)[number];
 type TokenSettings = BaseTokenSettings &
     AdvancedHudSettings<TokenCloseOption> & {
         scaleDimensions: boolean;
-        mode: "exploded" | "left" | "right";
+        mode: "exploded" | "left" | "right" | "radial";
         closeAllOnCLick: boolean;
     };
 
@@ -17,6 +17,7 @@ import {
 } from "foundry-pf2e";
 import { createTemporaryStyles } from "foundry-pf2e/src/html";
 import Sortable, { SortableEvent } from "sortablejs";
+import { addEffectDropListener } from "../utils/effects";
 import { BaseRenderOptions, BaseSettings, PF2eHudBase } from "./base/base";
 import { HealthData, getHealth, userCanObserveActor } from "./shared/base";
 
@@ -632,6 +633,13 @@ class PF2eHudTracker extends PF2eHudBase<TrackerSettings, any, TrackerRenderOpti
             tracker._onCombatantHoverOut(event);
         });
 
+        for (const combatantElement of html.querySelectorAll<HTMLElement>(".combatant")) {
+            addEffectDropListener(combatantElement, () => {
+                const combatantId = combatantElement.dataset.combatantId ?? "";
+                return this.combat?.combatants.get(combatantId)?.actor;
+            });
+        }
+
         addListenerAll(html, "[data-action]", (event, el) => {
             const action = el.dataset.action as EventAction;
 
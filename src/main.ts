@@ -8,6 +8,7 @@ import {
     registerSetting,
     userIsGM,
 } from "foundry-pf2e";
+import { PF2eHudGroup } from "./hud/group";
 import { PF2eHudPersistent } from "./hud/persistent";
 import { PF2eHudPopup } from "./hud/popup/base";
 import { PF2eHudResources } from "./hud/resources";
@@ -18,6 +19,9 @@ import { PF2eHudTracker } from "./hud/tracker";
 import { rollRecallKnowledge } from "./actions/recall-knowledge";
 import { useResolve } from "./actions/resolve";
 import { editAvatar } from "./utils/avatar";
+import { onDropCanvasData, onRenderTokenHUD } from "./utils/effects";
+import { clearAttacksCount, onMapCreateChatMessage } from "./utils/map";
+import { runMigrations } from "./utils/migrations";
 import { getNpcStrikeImage } from "./utils/npc-attacks";
 
 MODULE.register("pf2e-hud", "PF2e HUD");
@@ -25,6 +29,7 @@ MODULE.register("pf2e-hud", "PF2e HUD");
 const HUDS = {
     tooltip: new PF2eHudTooltip(),
     token: new PF2eHudToken(),
+    group: new PF2eHudGroup(),
     persistent: new PF2eHudPersistent(),
     tracker: new PF2eHudTracker(),
     resources: new PF2eHudResources(),
@@ -51,6 +56,14 @@ Hooks.once("setup", () => {
         },
     });
 
+    registerSetting({
+        key: "schemaVersion",
+        type: Number,
+        default: 0,
+        scope: "world",
+        config: false,
+    });
+
     registerSetting({
         key: "useModifiers",
         type: Boolean,
@@ -169,6 +182,30 @@ Hooks.once("setup", () => {
         onUp: () => HUDS.persistent.setSelectedToken(),
     });
 
+    registerKeybind("previousShortcutPage", {
+        onUp: () => HUDS.persistent.cycleShortcutPage(-1),
+    });
+
+    registerKeybind("nextShortcutPage", {
+        onUp: () => HUDS.persistent.cycleShortcutPage(1),
+    });
+
+    registerKeybind("previousPersistentActor", {
+        onUp: () => HUDS.persistent.cycleActor(-1),
+    });
+
+    registerKeybind("nextPersistentActor", {
+        onUp: () => HUDS.persistent.cycleActor(1),
+    });
+
+    for (const slot of R.range(0, 40)) {
+        // one per possible slot (10 groups of 4), left unbound by default
+        // the digits are used by the core hotbar
+        registerKeybind(`useShortcut${slot + 1}`, {
+            onDown: (context) => HUDS.persistent.useShortcut(slot, context.event),
+        });
+    }
+
     registerKeybind("filter", {
         onUp: () => {
             const sidebar = HUDS.persistent.sidebar ?? HUDS.token.sidebar;
@@ -235,11 +272,20 @@ Hooks.once("setup", () => {
         utils,
     };
 
-    for (const hud of huds) {
-        hud.enable();
-    }
+    // the huds read the flags that the migrations may still be converting
+    runMigrations(isGM).then(() => {
+        for (const hud of huds) {
+            hud.enable();
+        }
+    });
 });
 
+Hooks.on("dropCanvasData", onDropCanvasData);
+Hooks.on("renderTokenHUD", onRenderTokenHUD);
+Hooks.on("createChatMessage", onMapCreateChatMessage);
+Hooks.on("combatTurnChange", clearAttacksCount);
+Hooks.on("deleteCombat", clearAttacksCount);
+
 Hooks.on("renderSettingsConfig", (app: SettingsConfig, $html: JQuery) => {
     const html = $html[0];
     const tab = htmlQuery(html, `.tab[data-tab="${MODULE.id}"]`);
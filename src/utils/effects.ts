@@ -0,0 +1,119 @@
+import { R, addListenerAll, localize, warn } from "foundry-pf2e";
+import { getActorDragData, setDragData } from "../hud/shared/base";
+
+const EFFECT_DRAG_TYPE = "pf2e-hud-effect";
+
+/**
+ * the drag data can't be read during `dragover`, so we keep track of it ourselves
+ */
+let isDraggingEffect = false;
+
+function setEffectDragData(event: DragEvent, target: HTMLElement, effect: EffectItem) {
+    const actor = effect.actor;
+    if (!actor) return;
+
+    setDragData(event, target, effect.img, {
+        ...getActorDragData(actor, effect),
+        type: EFFECT_DRAG_TYPE,
+    });
+
+    isDraggingEffect = true;
+    target.addEventListener("dragend", () => (isDraggingEffect = false), { once: true });
+}
+
+function isEffectDragData(data: unknown): data is EffectDragData {
+    return R.isPlainObject(data) && data.type === EFFECT_DRAG_TYPE && R.isString(data.uuid);
+}
+
+function getEffectDragData(event: DragEvent): EffectDragData | undefined {
+    const data = TextEditor.getDragEventData(event);
+    return isEffectDragData(data) ? data : undefined;
+}
+
+function addEffectDropListener(
+    html: HTMLElement,
+    getActor: (event: DragEvent) => Maybe<ActorPF2e>
+) {
+    html.addEventListener("dragover", (event) => {
+        if (isDraggingEffect) event.preventDefault();
+    });
+
+    html.addEventListener("drop", (event) => {
+        const data = getEffectDragData(event);
+        if (!data) return;
+
+        event.preventDefault();
+        event.stopPropagation();
+
+        applyEffectCopy(getActor(event), data);
+    });
+}
+
+function onDropCanvasData(_canvas: CanvasPF2e, data: unknown) {
+    if (!isEffectDragData(data) || !R.isNumber(data.x) || !R.isNumber(data.y)) return;
+
+    const { x, y } = data;
+    const token = canvas.tokens.placeables.findLast(
+        (token) => token.visible && token.bounds.contains(x, y)
+    );
+
+    applyEffectCopy(token?.actor, data);
+
+    return false;
+}
+
+/**
+ * the active conditions of the core token HUD can be dragged like any other effect
+ */
+function onRenderTokenHUD(tokenHud: TokenHUD<TokenPF2e>, $html: JQuery) {
+    const actor = tokenHud.object?.actor;
+    if (!actor) return;
+
+    const selector = ".status-effects .effect-control.active[data-status-id]";
+
+    for (const el of $html[0].querySelectorAll<HTMLElement>(selector)) {
+        el.draggable = !!actor.getCondition(el.dataset.statusId ?? "");
+    }
+
+    addListenerAll($html[0], selector, "dragstart", (event, el) => {
+        const condition = actor.getCondition(el.dataset.statusId ?? "");
+        if (condition) setEffectDragData(event, el, condition);
+    });
+}
+
+async function applyEffectCopy(actor: Maybe<ActorPF2e>, data: EffectDragData) {
+    const effect = await fromUuid<ItemPF2e>(data.uuid);
+    if (!actor || !effect?.isOfType("affliction", "condition", "effect")) return;
+    if (effect.actor?.uuid === actor.uuid) return;
+
+    if (!actor.isOwner) {
+        return warn("utils.effects.notOwner", { name: actor.name });
+    }
+
+    if (effect.isOfType("condition") && effect.slug !== "persistent-damage") {
+        await actor.increaseCondition(effect.slug, { value: effect.value ?? undefined });
+    } else {
+        const source = effect.toObject();
+        const [created] = await actor.createEmbeddedDocuments("Item", [source]);
+
+        // the start is reset on creation, we want both effects to expire at the same time
+        if (created && source.type === "effect") {
+            await created.update({ "system.start": source.system.start });
+        }
+    }
+
+    const message = localize("utils.effects.applied", { effect: effect.name, name: actor.name });
+    ui.notifications.info(message);
+}
+
+type EffectItem = AfflictionPF2e | ConditionPF2e | EffectPF2e;
+
+type EffectDragData = {
+    type: typeof EFFECT_DRAG_TYPE;
+    uuid: string;
+    actorUUID: string;
+    x?: number;
+    y?: number;
+};
+
+export { addEffectDropListener, onDropCanvasData, onRenderTokenHUD, setEffectDragData };
@@ -0,0 +1,238 @@
+import {
+    R,
+    addListener,
+    addListenerAll,
+    htmlQuery,
+    subLocalize,
+    templateLocalize,
+    waitDialog,
+} from "foundry-pf2e";
+
+const localize = subLocalize("utils.fillRules");
+
+const AUTO_FILL_SOURCES = ["strikes", "stances", "actions", "spells", "consumables"] as const;
+const AUTO_FILL_COSTS = ["1", "2", "3", "reaction", "free"] as const;
+
+function createAutoFillRule(
+    source: AutoFillSource,
+    data: Partial<AutoFillRule> = {}
+): AutoFillRule {
+    return {
+        id: foundry.utils.randomID(),
+        source,
+        traits: [],
+        cost: "",
+        category: "",
+        minRank: null,
+        maxRank: null,
+        ...data,
+    };
+}
+
+function getDefaultAutoFillRules(): AutoFillRule[] {
+    return [
+        createAutoFillRule("strikes"),
+        createAutoFillRule("stances"),
+        createAutoFillRule("actions", { cost: "1" }),
+        createAutoFillRule("actions", { cost: "2" }),
+        createAutoFillRule("actions", { cost: "3" }),
+        createAutoFillRule("actions", { cost: "reaction" }),
+        createAutoFillRule("spells"),
+        createAutoFillRule("consumables"),
+    ];
+}
+
+function testAutoFillRule(rule: AutoFillRule, { traits, cost, rank, category }: AutoFillTest) {
+    if (rule.traits.length && !rule.traits.some((trait) => traits.includes(trait))) {
+        return false;
+    }
+
+    if (rule.cost && String(cost ?? "") !== rule.cost) {
+        return false;
+    }
+
+    if (rule.category && rule.category !== category) {
+        return false;
+    }
+
+    if (rule.minRank !== null && (rank ?? 0) < rule.minRank) {
+        return false;
+    }
+
+    if (rule.maxRank !== null && (rank === undefined || rank > rule.maxRank)) {
+        return false;
+    }
+
+    return true;
+}
+
+async function editAutoFillRules(rules: AutoFillRule[]): Promise<AutoFillRule[] | undefined> {
+    const sources = R.mapToObj(AUTO_FILL_SOURCES, (source) => [
+        source,
+        localize("source", source),
+    ]);
+
+    const costs = R.mapToObj(AUTO_FILL_COSTS, (cost) => [cost, localize("cost", cost)]);
+
+    const result = await waitDialog<Record<string, string>>({
+        title: localize("title"),
+        content: "dialogs/fill-rules",
+        classes: ["pf2e-hud-fill-rules"],
+        yes: {
+            label: localize("save"),
+            default: true,
+        },
+        no: {
+            label: localize("cancel"),
+        },
+        data: {
+            rules: rules.map(toRowData),
+            newRule: createAutoFillRule("actions", { id: "__ID__" }),
+            defaultRules: getDefaultAutoFillRules().map(toRowData),
+            sources,
+            costs,
+            i18n: templateLocalize("utils.fillRules"),
+        },
+        render: (event, html) => {
+            const listElement = htmlQuery(html, ".rules");
+            const templateElement = htmlQuery<HTMLTemplateElement>(html, "template.new-rule");
+            const defaultsElement = htmlQuery<HTMLTemplateElement>(html, "template.default-rules");
+            if (!listElement || !templateElement || !defaultsElement) return;
+
+            const updateSort = () => {
+                const sortElements =
+                    listElement.querySelectorAll<HTMLInputElement>("input[data-sort]");
+                for (const [index, sortElement] of sortElements.entries()) {
+                    sortElement.value = String(index);
+                }
+            };
+
+            const activateRowListeners = (row: HTMLElement) => {
+                addListenerAll(row, "[data-action]", (event, el) => {
+                    const action = el.dataset.action as FillRulesAction;
+
+                    switch (action) {
+                        case "move-up": {
+                            row.previousElementSibling?.before(row);
+                            break;
+                        }
+
+                        case "move-down": {
+                            row.nextElementSibling?.after(row);
+                            break;
+                        }
+
+                        case "delete": {
+                            row.remove();
+                            break;
+                        }
+                    }
+
+                    updateSort();
+                });
+            };
+
+            for (const row of listElement.querySelectorAll<HTMLElement>(".rule")) {
+                activateRowListeners(row);
+            }
+
+            addListener(html, "[data-action='add-rule']", () => {
+                const id = foundry.utils.randomID();
+                const content = templateElement.innerHTML.replaceAll("__ID__", id);
+                const row = htmlQuery(createFragment(content), ".rule")!;
+
+                listElement.append(row);
+                activateRowListeners(row);
+                updateSort();
+            });
+
+            addListener(html, "[data-action='reset-rules']", () => {
+                const fragment = createFragment(defaultsElement.innerHTML);
+                const rows = fragment.querySelectorAll<HTMLElement>(".rule");
+
+                listElement.replaceChildren(...rows);
+
+                for (const row of rows) {
+                    activateRowListeners(row);
+                }
+            });
+        },
+    });
+
+    if (!result) return;
+
+    const data = foundry.utils.expandObject(result) as {
+        rules?: Record<string, FillRuleFormData>;
+    };
+
+    return R.pipe(
+        R.entries(data.rules ?? {}),
+        R.sortBy(([_, rule]) => Number(rule.sort) || 0),
+        R.map(([id, rule]): AutoFillRule | undefined => {
+            if (!R.isIncludedIn(rule.source, AUTO_FILL_SOURCES)) return;
+
+            const minRank = Number(rule.minRank);
+            const maxRank = Number(rule.maxRank);
+
+            return {
+                id,
+                source: rule.source,
+                traits: R.pipe(
+                    (rule.traits ?? "").split(","),
+                    R.map((trait) => trait.trim().slugify()),
+                    R.filter(R.isTruthy)
+                ),
+                cost: R.isIncludedIn(rule.cost, AUTO_FILL_COSTS) ? rule.cost : "",
+                category: rule.category?.trim() ?? "",
+                minRank: rule.minRank !== "" && !isNaN(minRank) ? minRank : null,
+                maxRank: rule.maxRank !== "" && !isNaN(maxRank) ? maxRank : null,
+            };
+        }),
+        R.filter(R.isTruthy)
+    );
+}
+
+function toRowData(rule: AutoFillRule) {
+    return { ...rule, traits: rule.traits.join(", ") };
+}
+
+function createFragment(content: string) {
+    const template = document.createElement("template");
+    template.innerHTML = content;
+    return template.content;
+}
+
+type FillRulesAction = "move-up" | "move-down" | "delete";
+
+type AutoFillSource = (typeof AUTO_FILL_SOURCES)[number];
+type AutoFillCost = (typeof AUTO_FILL_COSTS)[number];
+
+type AutoFillRule = {
+    id: string;
+    source: AutoFillSource;
+    traits: string[];
+    cost: AutoFillCost | "";
+    category: string;
+    minRank: number | null;
+    maxRank: number | null;
+};
+
+type AutoFillTest = {
+    traits: string[];
+    cost?: string | number | null;
+    rank?: number;
+    category?: string | null;
+};
+
+type FillRuleFormData = {
+    sort: string;
+    source: string;
+    traits?: string;
+    cost?: string;
+    category?: string;
+    minRank: string;
+    maxRank: string;
+};
+
+export { editAutoFillRules, getDefaultAutoFillRules, testAutoFillRule };
+export type { AutoFillRule, AutoFillSource, AutoFillTest };
@@ -0,0 +1,385 @@
+import {
+    DegreeOfSuccess,
+    R,
+    addListenerAll,
+    createHTMLElement,
+    signedInteger,
+    subLocalize,
+} from "foundry-pf2e";
+import type { ActionBlast } from "../hud/sidebar/actions";
+
+const localize = subLocalize("utils.hitPreview");
+
+const CRITICAL_SUCCESS = 3;
+const SUCCESS = 2;
+
+const DEGREES = ["criticalFailure", "failure", "success", "criticalSuccess"] as const;
+
+const MAP_INDEXES = [0, 1, 2] as const;
+
+/**
+ * the preview is computed when the variant is hovered
+ * so it always uses the current target without having to re-render the HUD
+ */
+function addStrikesPreviewListeners(
+    html: HTMLElement,
+    getStrike: (el: HTMLElement) => Maybe<StrikeData> | Promise<Maybe<StrikeData>>
+) {
+    const selector = ".variant.attack[data-variant-index]:not([data-disabled])";
+
+    addListenerAll(html, selector, "mouseenter", async (event, el) => {
+        const target = canSeeOdds() ? getTarget() : null;
+        const strike = target ? await getStrike(el) : null;
+        const actor = strike?.item?.actor;
+
+        if (!target || !strike || !actor) {
+            return setPreviewTooltip(el);
+        }
+
+        const penalty = getMultipleAttackPenalty(actor, strike.item, [
+            "attack",
+            "attack-roll",
+            "strike-attack-roll",
+            `${strike.item.id}-attack`,
+        ]);
+        const mapIndex = Math.clamp(Number(el.dataset.variantIndex) || 0, 0, 2);
+        const chances = getHitChances(strike.totalModifier - penalty * mapIndex, target.ac);
+        const averages = await getDamageAverages(
+            target.actor,
+            strike.damage?.({ getFormula: true }),
+            strike.critical?.({ getFormula: true })
+        );
+        const damage = getExpectedDamage(chances, averages);
+
+        setPreviewTooltip(el, getPreviewTooltip(target.actor, chances, damage));
+    });
+}
+
+function addBlastsPreviewListeners(
+    html: HTMLElement,
+    getBlast: (el: HTMLElement) => Maybe<ActionBlast> | Promise<Maybe<ActionBlast>>
+) {
+    const selector = ".variant.attack[data-action='blast-attack'][data-map-increases]";
+
+    addListenerAll(html, selector, "mouseenter", async (event, el) => {
+        const target = canSeeOdds() ? getTarget() : null;
+        const blast = target ? await getBlast(el) : null;
+        const actor = blast?.statistic.actor;
+
+        if (!target || !blast || !actor) {
+            return setPreviewTooltip(el);
+        }
+
+        const check = blast.statistic.check;
+        const penalty = getMultipleAttackPenalty(actor, null, check.domains);
+        const mapIndex = Math.clamp(Number(el.dataset.mapIncreases) || 0, 0, 2);
+        const chances = getHitChances(check.mod - penalty * mapIndex, target.ac);
+        const formula = blast.formula[el.dataset.melee === "true" ? "melee" : "ranged"];
+        const averages = await getDamageAverages(target.actor, formula.damage, formula.critical);
+        const damage = getExpectedDamage(chances, averages);
+
+        setPreviewTooltip(el, getPreviewTooltip(target.actor, chances, damage));
+    });
+}
+
+/**
+ * the preview is added after the element's own tooltip instead of replacing it
+ */
+function setPreviewTooltip(el: HTMLElement, preview?: string) {
+    const tooltip = (el.dataset.baseTooltip ??= el.dataset.tooltip ?? "");
+    const value = R.filter([tooltip, preview], R.isTruthy).join("<hr>");
+
+    if (value) el.dataset.tooltip = value;
+    else delete el.dataset.tooltip;
+}
+
+function addSpellsPreview(html: HTMLElement, actor: ActorPF2e) {
+    const spellElements = html.querySelectorAll<HTMLElement>(
+        ".item[data-item-type='spell'][data-entry-id]"
+    );
+
+    for (const spellElement of spellElements) {
+        const { entryId, itemId } = spellElement.dataset;
+        const collection = (actor as CreaturePF2e).spellcasting?.collections.get(entryId ?? "");
+        const spell = collection?.get(itemId ?? "");
+        if (!spell || !hasSpellPreview(spell)) continue;
+
+        const previewElement = createHTMLElement("a", {
+            classes: ["hit-preview"],
+            innerHTML: `<i class="fa-solid fa-crosshairs"></i>`,
+        });
+
+        previewElement.addEventListener("mouseenter", async () => {
+            previewElement.dataset.tooltip =
+                (await getSpellPreviewTooltip(spell)) ?? localize("noTarget");
+        });
+
+        spellElement.querySelector(".extras .actions")?.prepend(previewElement);
+    }
+}
+
+function hasSpellPreview(spell: SpellPF2e) {
+    return canSeeOdds() && (spell.traits.has("attack") || !!getSpellSave(spell));
+}
+
+async function getSpellPreviewTooltip(spell: SpellPF2e): Promise<string | undefined> {
+    if (!canSeeOdds()) return;
+
+    const save = getSpellSave(spell);
+
+    if (save) {
+        const targets = getTargets();
+        if (!targets.length) return;
+
+        return R.pipe(
+            targets,
+            R.map((target) => getSaveOddsTooltip(spell, save, target)),
+            R.filter(R.isTruthy)
+        ).join("<hr>");
+    }
+
+    const target = getTarget();
+    const actor = spell.actor;
+    const check = spell.spellcasting?.statistic?.check;
+    if (!target || !actor || !check || !spell.traits.has("attack")) return;
+
+    const penalty = getMultipleAttackPenalty(actor, spell, check.domains);
+    const formula = (await spell.getDamage())?.template.damage.roll.formula;
+    const averages = await getDamageAverages(target.actor, formula, null);
+
+    const rows = MAP_INDEXES.map((mapIndex) => {
+        const chances = getHitChances(check.mod - penalty * mapIndex, target.ac);
+        const damage = getExpectedDamage(chances, averages);
+
+        return [
+            localize("map", { penalty: signedInteger(-penalty * mapIndex) }),
+            getPreviewRows(chances, damage),
+        ].join("<br>");
+    });
+
+    return [localize("target", { name: target.actor.name }), ...rows].join("<hr>");
+}
+
+function getSpellSave(spell: SpellPF2e) {
+    return spell.system.defense?.save?.statistic;
+}
+
+/**
+ * the odds would reveal the AC and saves of the targets
+ */
+function canSeeOdds() {
+    return game.user.isGM || game.pf2e.settings.metagame.dcs;
+}
+
+function getTargets() {
+    return R.pipe(
+        [...game.user.targets],
+        R.map((token) => token.actor),
+        R.filter(R.isTruthy)
+    );
+}
+
+function getTarget() {
+    const actor = R.only(getTargets());
+    const ac = actor?.armorClass?.value;
+    return actor && ac !== undefined ? { actor, ac } : null;
+}
+
+/**
+ * same as the system, the lowest penalty between the default one and the rule elements is used
+ */
+function getMultipleAttackPenalty(actor: ActorPF2e, item: Maybe<ItemPF2e>, domains: string[]) {
+    const options = new Set(actor.getRollOptions(domains));
+    const penalties = R.pipe(
+        domains,
+        R.flatMap((domain) => actor.synthetics.multipleAttackPenalties[domain] ?? []),
+        R.filter(({ predicate }) => predicate.test(options)),
+        R.map(({ penalty }) => Math.abs(penalty))
+    );
+
+    return Math.min(item?.traits.has("agile") ? 4 : 5, ...penalties);
+}
+
+function getHitChances(modifier: number, dc: number): HitChances {
+    let hit = 0;
+    let critical = 0;
+
+    for (const dieValue of R.range(1, 21)) {
+        const success = new DegreeOfSuccess({ dieValue, modifier }, dc).value;
+
+        if (success >= SUCCESS) hit++;
+        if (success === CRITICAL_SUCCESS) critical++;
+    }
+
+    return { hit: hit / 20, critical: critical / 20 };
+}
+
+function getSaveOddsTooltip(spell: SpellPF2e, save: string, target: ActorPF2e) {
+    const dc = spell.spellcasting?.statistic?.dc.value;
+    const statistic = target.getStatistic(save);
+    if (dc === undefined || !statistic) return;
+
+    const check = statistic.check;
+    const rollOptions = new Set([
+        ...target.getRollOptions(check.domains),
+        ...spell.getRollOptions("item"),
+        ...spell.getRollOptions("origin:item"),
+    ]);
+    const modifiers = check.modifiers.map((modifier) => modifier.clone());
+    const modifier = new game.pf2e.StatisticModifier(save, modifiers, rollOptions).totalModifier;
+
+    const degrees = [0, 0, 0, 0];
+
+    for (const dieValue of R.range(1, 21)) {
+        degrees[new DegreeOfSuccess({ dieValue, modifier }, dc).value]++;
+    }
+
+    const rows = [
+        localize("save.target", {
+            name: target.name,
+            save: statistic.label,
+            modifier: signedInteger(modifier),
+        }),
+        ...DEGREES.map((degree, index) =>
+            localize("save", degree, { chance: formatPercent(degrees[index] / 20) })
+        ).reverse(),
+    ];
+
+    return rows.join("<br>");
+}
+
+/**
+ * without a critical formula, the damage is doubled like for spell attacks
+ */
+async function getDamageAverages(
+    target: ActorPF2e,
+    damage: unknown,
+    critical: unknown
+): Promise<DamageAverages | undefined> {
+    const [damageFormula, criticalFormula] = await Promise.all([damage, critical]);
+    if (!R.isString(damageFormula)) return;
+
+    // the critical damage is simply not doubled for creatures immune to critical hits
+    const isCriticalImmune = target.attributes.immunities.some(
+        ({ type }) => type === "critical-hits"
+    );
+
+    const getCriticalAverage = () => {
+        if (isCriticalImmune) return getAverageDamage(damageFormula, target);
+        if (R.isString(criticalFormula)) return getAverageDamage(criticalFormula, target);
+        return getAverageDamage(damageFormula, target, 2);
+    };
+
+    const [success, criticalSuccess] = await Promise.all([
+        getAverageDamage(damageFormula, target),
+        getCriticalAverage(),
+    ]);
+
+    if (success === undefined || criticalSuccess === undefined) return;
+
+    return { success, criticalSuccess };
+}
+
+function getExpectedDamage(chances: HitChances, averages: Maybe<DamageAverages>) {
+    if (!averages) return;
+
+    const { success, criticalSuccess } = averages;
+    return (chances.hit - chances.critical) * success + chances.critical * criticalSuccess;
+}
+
+async function getAverageDamage(formula: string, target: ActorPF2e, multiplier = 1) {
+    const DamageRoll = CONFIG.Dice.rolls.find((cls) => cls.name === "DamageRoll");
+    if (!DamageRoll) return;
+
+    try {
+        const [minimum, maximum] = (await Promise.all([
+            new DamageRoll(formula).evaluate({ minimize: true }),
+            new DamageRoll(formula).evaluate({ maximize: true }),
+        ])) as Rolled<DamageRoll>[];
+
+        return R.sumBy(minimum.instances, (min, index) => {
+            if (min.persistent) return 0;
+
+            const max = maximum.instances[index];
+            const average = (min.total + max.total) / 2;
+            const precision = R.sumBy([min, max], (x) => x.componentTotal("precision")) / 2;
+
+            return applyIWR(
+                target,
+                min.formalDescription,
+                average * multiplier,
+                precision * multiplier
+            );
+        });
+    } catch {}
+}
+
+/**
+ * the IWR are tested against the description of the damage instance like the system does
+ * which handles the damage categories, materials and exceptions
+ */
+function applyIWR(target: ActorPF2e, description: Set<string>, value: number, precision: number) {
+    const { immunities, weaknesses, resistances } = target.attributes;
+
+    if (immunities.some((immunity) => immunity.test(description))) {
+        return 0;
+    }
+
+    if (immunities.some(({ type }) => type === "precision")) {
+        value -= precision;
+    }
+
+    const weakness = Math.max(
+        0,
+        ...weaknesses.filter((weakness) => weakness.test(description)).map(({ value }) => value)
+    );
+
+    const resistance = Math.max(
+        0,
+        ...resistances
+            .filter((resistance) => resistance.test(description))
+            .map((resistance) => resistance.getDoubledValue(description))
+    );
+
+    return Math.max(value + weakness - resistance, 0);
+}
+
+function getPreviewTooltip(target: ActorPF2e, chances: HitChances, damage?: number) {
+    const header = localize("target", { name: target.name });
+    return [header, getPreviewRows(chances, damage)].join("<br>");
+}
+
+function getPreviewRows(chances: HitChances, damage?: number) {
+    const rows = [
+        localize("hit", { chance: formatPercent(chances.hit) }),
+        localize("critical", { chance: formatPercent(chances.critical) }),
+    ];
+
+    if (damage !== undefined) {
+        rows.push(localize("damage", { damage: damage.toFixed(1) }));
+    }
+
+    return rows.join("<br>");
+}
+
+function formatPercent(value: number) {
+    return `${Math.round(value * 100)}%`;
+}
+
+type DamageAverages = {
+    success: number;
+    criticalSuccess: number;
+};
+
+type HitChances = {
+    hit: number;
+    critical: number;
+};
+
+export {
+    addBlastsPreviewListeners,
+    addSpellsPreview,
+    addStrikesPreviewListeners,
+    getSpellPreviewTooltip,
+    setPreviewTooltip,
+};
@@ -0,0 +1,119 @@
+import { R, addListenerAll, localize } from "foundry-pf2e";
+import { hud } from "../main";
+
+const MAX_MAP_INDEX = 2;
+
+const attacks: Map<string, number> = new Map();
+
+function getAttacksCount(actor: ActorPF2e) {
+    return attacks.get(actor.uuid) ?? 0;
+}
+
+function getMapIndex(actor: ActorPF2e) {
+    return Math.min(getAttacksCount(actor), MAX_MAP_INDEX);
+}
+
+function setAttacksCount(actor: ActorPF2e, count: number) {
+    if (count > 0) attacks.set(actor.uuid, count);
+    else attacks.delete(actor.uuid);
+
+    refreshMapVariants(actor);
+}
+
+function onMapCreateChatMessage(message: ChatMessagePF2e) {
+    const actor = message.actor;
+    const combat = game.combat;
+    if (!actor || !combat?.started || combat.combatant?.actor !== actor) return;
+    if (!isAttackMessage(message)) return;
+
+    setAttacksCount(actor, getAttacksCount(actor) + 1);
+}
+
+function clearAttacksCount() {
+    const actors = R.pipe(
+        [...attacks.keys()],
+        R.map((uuid) => fromUuidSync<ActorPF2e>(uuid)),
+        R.filter(R.isTruthy)
+    );
+
+    attacks.clear();
+
+    for (const actor of actors) {
+        refreshMapVariants(actor);
+    }
+}
+
+function isAttackMessage(message: ChatMessagePF2e) {
+    const context = message.flags.pf2e.context as MapCheckContext | undefined;
+    if (!context || context.isReroll) return false;
+
+    if (context.type === "attack-roll") {
+        return true;
+    }
+
+    if (context.type !== "skill-check") {
+        return false;
+    }
+
+    const traits = (context.traits ?? []).map((trait) => (R.isString(trait) ? trait : trait.name));
+    return traits.includes("attack") || !!context.options?.includes("attack");
+}
+
+/**
+ * highlights the variant matching the current multiple attack penalty
+ * and add the listeners for the manual override
+ */
+function activateMapVariants(html: HTMLElement, actor: ActorPF2e) {
+    addListenerAll(html, "[data-action='cycle-map']", "mousedown", (event) => {
+        if (![0, 2].includes(event.button)) return;
+
+        const count = event.button === 0 ? (getMapIndex(actor) + 1) % (MAX_MAP_INDEX + 1) : 0;
+        setAttacksCount(actor, count);
+    });
+
+    highlightMapVariants(html, actor);
+}
+
+function highlightMapVariants(html: HTMLElement, actor: ActorPF2e) {
+    const mapIndex = getMapIndex(actor);
+    const selector = [
+        ".variant.attack[data-variant-index]",
+        ".variant.attack[data-map-increases]",
+        ".variants:has(> [data-map]) > .variant[data-action='roll-statistic-action']",
+    ].join(", ");
+
+    for (const el of html.querySelectorAll<HTMLElement>(selector)) {
+        const { variantIndex, mapIncreases, map } = el.dataset;
+        const index = Number(variantIndex ?? mapIncreases ?? map ?? 0);
+
+        el.classList.toggle("current-map", index === mapIndex);
+    }
+
+    for (const el of html.querySelectorAll<HTMLElement>("[data-action='cycle-map']")) {
+        el.dataset.tooltip = localize("persistent.main.map.tooltip", {
+            count: getAttacksCount(actor),
+        });
+
+        const indexElement = el.querySelector(".map-index");
+        if (indexElement) indexElement.textContent = String(mapIndex);
+    }
+}
+
+function refreshMapVariants(actor: ActorPF2e) {
+    for (const app of [hud.persistent, hud.token]) {
+        if (app.actor?.uuid !== actor.uuid) continue;
+
+        for (const element of [app.element, app.sidebar?.element]) {
+            if (element) highlightMapVariants(element, actor);
+        }
+    }
+}
+
+type MapCheckContext = {
+    type?: string;
+    isReroll?: boolean;
+    options?: string[];
+    traits?: (string | { name: string })[];
+};
+
+export { activateMapVariants, clearAttacksCount, getMapIndex, onMapCreateChatMessage };
@@ -0,0 +1,458 @@
+import {
+    MODULE,
+    R,
+    error,
+    getFlag,
+    getSetting,
+    info,
+    setFlag,
+    setSetting,
+} from "foundry-pf2e";
+import { hud } from "../main";
+import { AutoFillRule, getDefaultAutoFillRules } from "./fill-rules";
+import { addShortcutReferences } from "./shortcuts";
+import type { ShortcutData, UserShortcutsData } from "../hud/persistent";
+import type { AvatarData } from "./avatar";
+
+const SHORTCUT_TYPES = [
+    "action",
+    "attack",
+    "combo",
+    "consumable",
+    "macro",
+    "skill",
+    "spell",
+    "toggle",
+] as const;
+
+const RESOURCE_STEPS = ["step1", "step2", "step3"] as const;
+
+const LEGACY_AUTO_FILL_SETTINGS = ["autoFillActions", "autoFillReactions", "autoFillType"] as const;
+
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        migrateToken: migrateSyntheticFlags,
+    },
+    {
+        version: 2,
+        migrateActor: (flags) => {
+            migrateUserShortcuts(flags, (shortcuts) => migrateShortcutsData(shortcuts));
+
+            if (R.isPlainObject(flags.macros)) {
+                for (const [userId, macros] of R.entries(flags.macros)) {
+                    flags.macros[userId] = migrateMacrosData(macros);
+                }
+            }
+
+            if ("avatar" in flags) {
+                const avatar = migrateAvatarData(flags.avatar);
+
+                if (avatar) flags.avatar = avatar;
+                else delete flags.avatar;
+            }
+        },
+        migrateUser: (flags) => {
+            if (!R.isPlainObject(flags.resources) || !("userResources" in flags.resources)) {
+                return;
+            }
+
+            flags.resources.userResources = migrateResourcesData(
+                flags.resources.userResources,
+                false
+            );
+        },
+        migrateWorldResources: (resources) => migrateResourcesData(resources, true),
+    },
+    {
+        version: 3,
+        migrateActor: (flags, actor) => {
+            migrateUserShortcuts(flags, (shortcuts) => {
+                addShortcutReferences(actor, shortcuts);
+                return shortcuts;
+            });
+        },
+    },
+];
+
+const SCHEMA_VERSION = Math.max(...MIGRATIONS.map(({ version }) => version));
+
+/**
+ * the schema version is only bumped once every migration went through
+ * a failure leaves it untouched so the migrations run again on the next load
+ */
+async function runMigrations(isGM: boolean) {
+    if (isGM) {
+        try {
+            await migrateData();
+        } catch (err) {
+            const data = { to: SCHEMA_VERSION, error: String(err) };
+            onReady(() => error("migrations.failed", data, true));
+        }
+    }
+
+    try {
+        await migrateClientSettings();
+    } catch (err) {
+        onReady(() => error("migrations.client", { error: String(err) }, true));
+    }
+}
+
+async function migrateData() {
+    const currentVersion = getSetting<number>("schemaVersion") ?? 0;
+    if (currentVersion >= SCHEMA_VERSION) return;
+
+    const migrations = MIGRATIONS.filter(({ version }) => version > currentVersion);
+    const summary: MigrationSummary = { actors: 0, tokens: 0, users: 0, resources: 0 };
+
+    if (migrations.some(({ migrateToken }) => migrateToken)) {
+        for (const scene of game.scenes) {
+            for (const token of scene.tokens) {
+                if (token.actorLink || !token.delta) continue;
+
+                for (const { migrateToken } of migrations) {
+                    if (await migrateToken?.(token)) {
+                        summary.tokens++;
+                    }
+                }
+            }
+        }
+    }
+
+    const actorMigrations = migrations.map(({ migrateActor }) => migrateActor);
+    for (const actor of game.actors) {
+        if (await migrateDocument(actor, actorMigrations)) {
+            summary.actors++;
+        }
+    }
+
+    const userMigrations = migrations.map(({ migrateUser }) => migrateUser);
+    for (const user of game.users) {
+        if (await migrateDocument(user, userMigrations)) {
+            summary.users++;
+        }
+    }
+
+    const worldResources = getSetting<unknown[]>("resources.worldResources") ?? [];
+    const migratedResources = migrations.reduce(
+        (resources, { migrateWorldResources }) => migrateWorldResources?.(resources) ?? resources,
+        foundry.utils.deepClone(worldResources)
+    );
+
+    if (!R.isDeepEqual(worldResources, migratedResources)) {
+        await setSetting("resources.worldResources", migratedResources);
+        summary.resources = migratedResources.length;
+    }
+
+    await setSetting("schemaVersion", SCHEMA_VERSION);
+
+    if (R.values(summary).some((count) => count > 0)) {
+        onReady(() =>
+            info("migrations.done", { from: currentVersion, to: SCHEMA_VERSION, ...summary })
+        );
+    }
+}
+
+function onReady(callback: () => void) {
+    if (game.ready) callback();
+    else Hooks.once("ready", callback);
+}
+
+/**
+ * the old auto-fill settings were client settings, they only exist in the storage of each browser
+ * so they can't be converted with the world data and are instead converted for each user
+ */
+async function migrateClientSettings() {
+    const storage = window.localStorage;
+    const keys = LEGACY_AUTO_FILL_SETTINGS.map((key) => `${MODULE.id}.persistent.${key}`);
+    const values = keys.map((key) => storage.getItem(key));
+    if (values.every((value) => value === null)) return;
+
+    const [actions, reactions, type] = values.map((value) => {
+        try {
+            return value === null ? undefined : JSON.parse(value);
+        } catch {}
+    });
+
+    if (!getFlag(game.user, "persistent", "autoFillRules")) {
+        const rules = migrateAutoFillRules({ actions, reactions, type });
+        await setFlag(game.user, "persistent", "autoFillRules", rules);
+    }
+
+    for (const key of keys) {
+        storage.removeItem(key);
+    }
+}
+
+function migrateAutoFillRules({
+    actions,
+    reactions,
+    type,
+}: {
+    actions: unknown;
+    reactions: unknown;
+    type: unknown;
+}): AutoFillRule[] {
+    const rules = getDefaultAutoFillRules().filter(({ source, cost }) => {
+        if (source !== "actions") return true;
+        return cost === "reaction" ? reactions !== false : actions !== false;
+    });
+
+    // "two" used to fill consumables before spells
+    if (type === "two") {
+        const spells = rules.findIndex(({ source }) => source === "spells");
+        const consumables = rules.findIndex(({ source }) => source === "consumables");
+        [rules[spells], rules[consumables]] = [rules[consumables], rules[spells]];
+    }
+
+    return rules;
+}
+
+async function migrateDocument<T extends ActorPF2e | UserPF2e>(
+    doc: T,
+    migrations: Maybe<DocumentMigration<T>>[]
+) {
+    const source = doc._source.flags?.[MODULE.id] as ModuleFlags | undefined;
+    if (!R.isPlainObject(source)) return false;
+
+    const flags = foundry.utils.deepClone(source);
+
+    for (const migrate of migrations) {
+        migrate?.(flags, doc);
+    }
+
+    const updates: Record<string, unknown> = {};
+
+    for (const key of R.unique([...R.keys(source), ...R.keys(flags)])) {
+        if (R.isDeepEqual(source[key], flags[key])) continue;
+
+        // we replace the whole flag to make sure removed entries are deleted
+        updates[`flags.${MODULE.id}.-=${key}`] = null;
+
+        if (flags[key] !== undefined) {
+            updates[`flags.${MODULE.id}.${key}`] = flags[key];
+        }
+    }
+
+    if (R.isEmpty(updates)) return false;
+
+    await doc.update(updates);
+    return true;
+}
+
+/**
+ * shortcuts and avatar used to be saved on the synthetic actor of unlinked tokens
+ * they are now shared between all the tokens on the world actor
+ */
+async function migrateSyntheticFlags(token: TokenDocumentPF2e) {
+    const delta = token.delta!;
+    const worldActor = game.actors.get(token.actorId ?? "");
+    const source = delta._source.flags?.[MODULE.id] as ModuleFlags | undefined;
+    if (!worldActor || !R.isPlainObject(source)) return false;
+
+    const worldFlags = (worldActor._source.flags?.[MODULE.id] ?? {}) as ModuleFlags;
+    const persistent = R.isPlainObject(source.persistent) ? source.persistent : undefined;
+    const keys = ["avatar", "persistent"].filter((key) => key in source);
+    if (!keys.length) return false;
+
+    const updates: Record<string, unknown> = {};
+
+    if (source.avatar && !worldFlags.avatar) {
+        updates[`flags.${MODULE.id}.avatar`] = source.avatar;
+    }
+
+    if (persistent) {
+        const worldPersistent = (worldFlags.persistent ?? {}) as ModuleFlags;
+
+        for (const [key, users] of R.entries(persistent)) {
+            if (!R.isPlainObject(users)) continue;
+
+            for (const [userId, data] of R.entries(users)) {
+                if (foundry.utils.getProperty(worldPersistent, `${key}.${userId}`)) continue;
+                updates[`flags.${MODULE.id}.persistent.${key}.${userId}`] = data;
+            }
+        }
+    }
+
+    if (!R.isEmpty(updates)) {
+        await worldActor.update(updates);
+    }
+
+    await delta.update(R.mapToObj(keys, (key) => [`flags.${MODULE.id}.-=${key}`, null]));
+
+    return true;
+}
+
+function migrateUserShortcuts(
+    flags: ModuleFlags,
+    migrate: (shortcuts: UserShortcutsData) => UserShortcutsData
+) {
+    const persistent = flags.persistent;
+    if (!R.isPlainObject(persistent)) return;
+
+    if (R.isPlainObject(persistent.shortcuts)) {
+        for (const [userId, shortcuts] of R.entries(persistent.shortcuts)) {
+            persistent.shortcuts[userId] = migrate(shortcuts as UserShortcutsData);
+        }
+    }
+
+    if (R.isPlainObject(persistent.pageShortcuts)) {
+        for (const pages of R.values(persistent.pageShortcuts)) {
+            if (!R.isPlainObject(pages)) continue;
+
+            for (const [pageId, shortcuts] of R.entries(pages)) {
+                pages[pageId] = migrate(shortcuts as UserShortcutsData);
+            }
+        }
+    }
+}
+
+function migrateShortcutsData(shortcuts: unknown): UserShortcutsData {
+    const migrated: UserShortcutsData = {};
+    if (!R.isPlainObject(shortcuts)) return migrated;
+
+    for (const [groupIndex, group] of R.entries(shortcuts)) {
+        if (!R.isPlainObject(group)) continue;
+
+        for (const [index, shortcut] of R.entries(group)) {
+            if (!isValidShortcut(shortcut)) continue;
+
+            const data = { ...shortcut, groupIndex, index } as ShortcutData;
+
+            if (data.type === "combo") {
+                data.steps = data.steps.filter(
+                    (step) => step.type !== "combo" && isValidShortcut(step)
+                );
+                if (!data.steps.length) continue;
+            }
+
+            migrated[groupIndex] ??= {};
+            migrated[groupIndex][index] = data;
+        }
+    }
+
+    return migrated;
+}
+
+function isValidShortcut(shortcut: unknown): shortcut is Record<string, any> {
+    if (!R.isPlainObject(shortcut) || !R.isIncludedIn(shortcut.type as string, SHORTCUT_TYPES)) {
+        return false;
+    }
+
+    const isString = (key: string) => R.isString(shortcut[key]) && !!shortcut[key];
+
+    switch (shortcut.type) {
+        case "action": {
+            return isString("itemId");
+        }
+
+        case "attack": {
+            return (isString("itemId") && isString("slug")) || isString("elementTrait");
+        }
+
+        case "combo": {
+            return Array.isArray(shortcut.steps);
+        }
+
+        case "consumable": {
+            return isString("itemId") || isString("slug");
+        }
+
+        case "macro": {
+            return isString("macroUuid");
+        }
+
+        case "skill": {
+            return isString("actionId");
+        }
+
+        case "spell": {
+            return isString("itemId") && isString("entryId") && R.isNumber(shortcut.castRank);
+        }
+
+        case "toggle": {
+            return isString("itemId") && isString("domain") && isString("option");
+        }
+
+        default: {
+            return false;
+        }
+    }
+}
+
+function migrateMacrosData(macros: unknown): string[] {
+    if (!Array.isArray(macros)) return [];
+
+    return R.pipe(
+        macros,
+        R.filter(R.isString),
+        R.map((uuid) => (uuid.includes(".") ? uuid : `Macro.${uuid}`)),
+        R.unique()
+    );
+}
+
+function migrateAvatarData(avatar: unknown): AvatarData | undefined {
+    if (!R.isPlainObject(avatar) || !R.isString(avatar.src) || !avatar.src) return;
+
+    const scale = Number(avatar.scale) || 1;
+    const scales = (R.isPlainObject(avatar.scales) ? avatar.scales : {}) as Partial<Point>;
+    const position = (R.isPlainObject(avatar.position) ? avatar.position : {}) as Partial<Point>;
+
+    return {
+        src: avatar.src,
+        scale,
+        scales: {
+            x: Number(scales.x) || scale,
+            y: Number(scales.y) || scale,
+        },
+        position: {
+            x: Number(position.x) || 0,
+            y: Number(position.y) || 0,
+        },
+    };
+}
+
+function migrateResourcesData(resources: unknown, world: boolean): unknown[] {
+    if (!Array.isArray(resources)) return [];
+
+    return R.pipe(
+        resources,
+        R.filter(R.isPlainObject),
+        R.map((resource) => {
+            const migrated = hud.resources.validateResource({
+                ...resource,
+                id: R.isString(resource.id) && resource.id ? resource.id : foundry.utils.randomID(),
+                name: R.isString(resource.name) ? resource.name : "",
+                world,
+            } as Parameters<typeof hud.resources.validateResource>[0]);
+
+            for (const step of RESOURCE_STEPS) {
+                if (migrated[step] === undefined) continue;
+                migrated[step] = Number(migrated[step]) || 0;
+            }
+
+            return migrated;
+        })
+    );
+}
+
+type ModuleFlags = Record<string, any>;
+
+type DocumentMigration<T extends ActorPF2e | UserPF2e> = (flags: ModuleFlags, doc: T) => void;
+
+type Migration = {
+    version: number;
+    migrateToken?: (token: TokenDocumentPF2e) => Promise<boolean>;
+    migrateActor?: DocumentMigration<ActorPF2e>;
+    migrateUser?: DocumentMigration<UserPF2e>;
+    migrateWorldResources?: (resources: unknown[]) => unknown[];
+};
+
+type MigrationSummary = {
+    actors: number;
+    tokens: number;
+    users: number;
+    resources: number;
+};
+
+export { runMigrations };
@@ -0,0 +1,521 @@
+import {
+    MODULE,
+    R,
+    addListener,
+    getFlag,
+    htmlQuery,
+    subLocalize,
+    templateLocalize,
+    waitDialog,
+    warn,
+} from "foundry-pf2e";
+import type { ShortcutData, UserShortcutsData } from "../hud/persistent";
+import { findStrikeAction } from "../hud/sidebar/actions";
+
+const localize = subLocalize("utils.shortcuts");
+
+const EXPORT_TYPE = "pf2e-hud-shortcuts";
+
+const SHORTCUT_TYPES = [
+    "action",
+    "attack",
+    "consumable",
+    "spell",
+    "toggle",
+    "skill",
+    "macro",
+    "combo",
+];
+
+async function exportShortcuts(actor: ActorPF2e, shortcuts: UserShortcutsData) {
+    const destinations: Partial<Record<ExportDestination, string>> = {
+        download: localize("export.destination.download"),
+        clipboard: localize("export.destination.clipboard"),
+    };
+
+    if (game.user.can("JOURNAL_CREATE")) {
+        destinations.journal = localize("export.destination.journal");
+    }
+
+    const result = await waitDialog<{ destination: ExportDestination }>({
+        title: localize("export.title", { name: actor.name }),
+        content: "dialogs/shortcuts-export",
+        classes: ["pf2e-hud-shortcuts-export"],
+        yes: {
+            label: localize("export.yes"),
+            default: true,
+        },
+        no: {
+            label: localize("cancel"),
+        },
+        data: {
+            destinations,
+            i18n: templateLocalize("utils.shortcuts"),
+        },
+    });
+
+    if (!result) return;
+
+    const data = createExportData(actor, shortcuts);
+    const json = JSON.stringify(data, null, 2);
+    const name = localize("export.name", { name: actor.name });
+
+    switch (result.destination) {
+        case "download": {
+            return saveDataToFile(json, "text/json", `${name.slugify()}.json`);
+        }
+
+        case "clipboard": {
+            game.clipboard.copyPlainText(json);
+            return ui.notifications.info(localize("export.clipboard", { name: actor.name }));
+        }
+
+        case "journal": {
+            const journal = await JournalEntry.create({
+                name,
+                pages: [
+                    {
+                        name,
+                        type: "text",
+                        text: { content: `<pre>${Handlebars.escapeExpression(json)}</pre>` },
+                    },
+                ],
+                flags: {
+                    [MODULE.id]: {
+                        shortcuts: data,
+                    },
+                },
+            });
+
+            return journal?.sheet.render(true);
+        }
+    }
+}
+
+async function importShortcuts(actor: ActorPF2e): Promise<UserShortcutsData | undefined> {
+    const journals = game.journal.filter(
+        (journal) => journal.visible && !!getFlag(journal, "shortcuts")
+    );
+
+    const result = await waitDialog<{ json: string; journal: string }>({
+        title: localize("import.title", { name: actor.name }),
+        content: "dialogs/shortcuts-import",
+        classes: ["pf2e-hud-shortcuts-import"],
+        yes: {
+            label: localize("import.yes"),
+            default: true,
+        },
+        no: {
+            label: localize("cancel"),
+        },
+        data: {
+            journals: R.mapToObj(journals, (journal) => [journal.id, journal.name]),
+            hasJournals: journals.length > 0,
+            i18n: templateLocalize("utils.shortcuts"),
+        },
+        render: (event, html) => {
+            const textarea = htmlQuery<HTMLTextAreaElement>(html, "textarea[name='json']");
+
+            addListener(html, "input[type='file']", "change", async (event, el) => {
+                const file = (el as HTMLInputElement).files?.[0];
+                if (!file || !textarea) return;
+
+                textarea.value = await readTextFromFile(file);
+            });
+        },
+    });
+
+    if (!result) return;
+
+    const data = (() => {
+        if (result.journal) {
+            const journal = game.journal.get(result.journal);
+            return journal ? getFlag<ShortcutsExportData>(journal, "shortcuts") : undefined;
+        }
+
+        try {
+            return JSON.parse(result.json) as ShortcutsExportData;
+        } catch {}
+    })();
+
+    if (!R.isPlainObject(data) || data.type !== EXPORT_TYPE || !isValidShortcuts(data.shortcuts)) {
+        warn("utils.shortcuts.import.invalid");
+        return;
+    }
+
+    return remapShortcuts(actor, data);
+}
+
+function isValidShortcuts(shortcuts: unknown): shortcuts is UserShortcutsData {
+    if (!R.isPlainObject(shortcuts)) return false;
+
+    return R.entries(shortcuts).every(
+        ([groupIndex, group]) =>
+            isValidIndex(groupIndex) &&
+            R.isPlainObject(group) &&
+            R.entries(group).every(
+                ([index, shortcut]) =>
+                    isValidShortcut(shortcut) &&
+                    shortcut.index === index &&
+                    shortcut.groupIndex === groupIndex
+            )
+    );
+}
+
+function isValidShortcut(shortcut: unknown): shortcut is ShortcutData {
+    return (
+        isValidShortcutData(shortcut) &&
+        isValidIndex(shortcut.index) &&
+        isValidIndex(shortcut.groupIndex)
+    );
+}
+
+/**
+ * combo steps are stored without their slot indexes
+ */
+function isValidShortcutData(data: unknown): data is Record<string, unknown> & { type: string } {
+    if (!R.isPlainObject(data) || !R.isString(data.type) || !SHORTCUT_TYPES.includes(data.type)) {
+        return false;
+    }
+
+    if (data.type === "combo") {
+        return (
+            Array.isArray(data.steps) &&
+            data.steps.every((step) => isValidShortcutData(step) && step.type !== "combo")
+        );
+    }
+
+    return true;
+}
+
+function isValidIndex(index: unknown): index is string {
+    return R.isString(index) && /^\d+$/.test(index);
+}
+
+function createExportData(actor: ActorPF2e, shortcuts: UserShortcutsData): ShortcutsExportData {
+    const references: Record<string, ShortcutItemReference> = {};
+
+    const addReference = (item: Maybe<ItemPF2e>) => {
+        if (!item || references[item.id]) return;
+        references[item.id] = createItemReference(item);
+    };
+
+    for (const shortcut of getShortcutsList(shortcuts)) {
+        if (shortcut.type === "spell") {
+            addReference(getShortcutSpell(actor, shortcut));
+            addReference(actor.items.get(shortcut.entryId));
+        } else if ("itemId" in shortcut) {
+            addReference(actor.items.get(shortcut.itemId));
+        }
+    }
+
+    return {
+        type: EXPORT_TYPE,
+        actor: {
+            uuid: actor.uuid,
+            name: actor.name,
+        },
+        shortcuts: foundry.utils.deepClone(shortcuts),
+        references,
+    };
+}
+
+async function remapShortcuts(
+    actor: ActorPF2e,
+    data: ShortcutsExportData
+): Promise<UserShortcutsData> {
+    const shortcuts = foundry.utils.deepClone(data.shortcuts);
+    if (data.actor?.uuid === actor.uuid) return shortcuts;
+
+    const references = data.references ?? {};
+    const cached: RelinkCache = {};
+
+    for (const shortcut of getShortcutsList(shortcuts)) {
+        const getReference = (id: string, reference: Maybe<ShortcutItemReference>) => {
+            return references[id] ?? reference;
+        };
+
+        await relinkShortcut(actor, shortcut, getReference, cached);
+    }
+
+    return shortcuts;
+}
+
+async function repairShortcuts(actor: ActorPF2e, shortcuts: UserShortcutsData) {
+    const cached: RelinkCache = {};
+    const report: ShortcutsRepairReport = { fixed: [], failed: [] };
+
+    for (const shortcut of getShortcutsList(shortcuts)) {
+        if (!isStaleShortcut(actor, shortcut)) continue;
+
+        const relinked = await relinkShortcut(
+            actor,
+            shortcut,
+            (id, reference) => reference ?? getFallbackReference(actor, shortcut),
+            cached
+        );
+
+        const name =
+            ("name" in shortcut && shortcut.name) ||
+            ("itemRef" in shortcut && shortcut.itemRef?.name) ||
+            localize("repair.unknown", { type: shortcut.type });
+
+        report[relinked ? "fixed" : "failed"].push(name);
+    }
+
+    return report;
+}
+
+function getStaleShortcuts(actor: ActorPF2e, shortcuts: UserShortcutsData) {
+    return getShortcutsList(shortcuts).filter((shortcut) => isStaleShortcut(actor, shortcut));
+}
+
+function isStaleShortcut(actor: ActorPF2e, shortcut: ShortcutData) {
+    if (shortcut.type === "spell") {
+        return !getShortcutSpell(actor, shortcut);
+    }
+
+    if (shortcut.type === "attack") {
+        return "slug" in shortcut && !findStrikeAction(actor, getStrikeIds(shortcut));
+    }
+
+    return "itemId" in shortcut && !actor.items.has(shortcut.itemId);
+}
+
+function addShortcutReferences(actor: ActorPF2e, shortcuts: UserShortcutsData | ShortcutData[]) {
+    const list = Array.isArray(shortcuts)
+        ? shortcuts.flatMap(flattenShortcut)
+        : getShortcutsList(shortcuts);
+
+    for (const shortcut of list) {
+        if (shortcut.type === "spell") {
+            const spell = getShortcutSpell(actor, shortcut);
+            const entry = actor.items.get(shortcut.entryId);
+
+            if (spell) shortcut.itemRef = createItemReference(spell);
+            if (entry) shortcut.entryRef = createItemReference(entry);
+        } else if (shortcut.type === "attack") {
+            if (!("slug" in shortcut)) continue;
+
+            const strike = findStrikeAction(actor, getStrikeIds(shortcut));
+            if (strike) shortcut.itemRef = createItemReference(strike.item);
+        } else if ("itemId" in shortcut) {
+            const item = actor.items.get(shortcut.itemId);
+            if (item) shortcut.itemRef = createItemReference(item);
+        }
+    }
+}
+
+async function relinkShortcut(
+    actor: ActorPF2e,
+    shortcut: ShortcutData,
+    getReference: ReferenceGetter,
+    cached: RelinkCache
+): Promise<boolean> {
+    if (shortcut.type === "attack") {
+        if (!("slug" in shortcut)) return true;
+
+        const strikes = actor.system.actions ?? [];
+        const reference = getReference(shortcut.itemId, shortcut.itemRef);
+        const item = findItem(reference, strikes.map((strike) => strike.item));
+        const strike =
+            strikes.find((strike) => !!item && strike.item === item) ??
+            strikes.find((strike) => !!reference?.slug && strike.slug === reference.slug);
+        if (!strike) return false;
+
+        shortcut.itemId = strike.item.id;
+        shortcut.slug = strike.slug;
+        shortcut.itemRef = createItemReference(strike.item);
+
+        return true;
+    }
+
+    if (shortcut.type !== "spell") {
+        if (!("itemId" in shortcut)) return true;
+
+        const item = findItem(getReference(shortcut.itemId, shortcut.itemRef), actor.items);
+        if (!item) return false;
+
+        shortcut.itemId = item.id;
+        shortcut.itemRef = createItemReference(item);
+
+        return true;
+    }
+
+    const spellcasting = (actor as CreaturePF2e).spellcasting;
+    if (!spellcasting) return false;
+
+    const spellReference = getReference(shortcut.itemId, shortcut.itemRef);
+    const entry = actor.items.has(shortcut.entryId)
+        ? actor.items.get(shortcut.entryId)
+        : findItem(getReference(shortcut.entryId, shortcut.entryRef), actor.items);
+    const collections = entry
+        ? R.filter([spellcasting.collections.get(entry.id)], R.isTruthy)
+        : [...spellcasting.collections];
+
+    for (const collection of collections) {
+        const spell = findItem<SpellPF2e>(spellReference, collection.values());
+        if (!spell) continue;
+
+        shortcut.itemId = spell.id;
+        shortcut.entryId = collection.id;
+        shortcut.itemRef = createItemReference(spell);
+
+        cached.sheetData ??= {};
+        cached.sheetData[collection.id] ??= await collection.entry.getSheetData();
+        const sheetData = cached.sheetData[collection.id];
+
+        if (sheetData.isPrepared) {
+            for (const group of sheetData.groups) {
+                const slotId = group.active.findIndex(
+                    (active) => active?.spell.id === spell.id
+                );
+                if (slotId === -1) continue;
+
+                shortcut.groupId = group.id as SpellShortcutGroupId;
+                shortcut.slotId = slotId;
+                break;
+            }
+        }
+
+        return true;
+    }
+
+    return false;
+}
+
+function findItem<T extends ItemPF2e>(
+    reference: Maybe<Partial<ShortcutItemReference>>,
+    items: Iterable<ItemPF2e>
+): T | undefined {
+    if (!reference) return;
+
+    const { type, sourceId, slug, name } = reference;
+    const candidates = R.filter([...items], (item) => !type || item.type === type);
+
+    const item =
+        candidates.find((item) => !!sourceId && item.sourceId === sourceId) ??
+        candidates.find((item) => !!slug && item.slug === slug) ??
+        candidates.find((item) => !!name && item.name === name);
+
+    return item as T | undefined;
+}
+
+function getFallbackReference(
+    actor: ActorPF2e,
+    shortcut: ShortcutData
+): Partial<ShortcutItemReference> | undefined {
+    switch (shortcut.type) {
+        case "action": {
+            return { name: shortcut.name };
+        }
+
+        case "attack": {
+            if (!("slug" in shortcut)) return;
+
+            const type = actor.isOfType("npc") ? "melee" : "weapon";
+            return { type, slug: shortcut.slug };
+        }
+
+        case "spell": {
+            const item = getLegacyItem(actor, shortcut.itemId);
+            return item?.isOfType("spell") ? createItemReference(item) : undefined;
+        }
+
+        case "consumable": {
+            if (!("itemId" in shortcut)) return;
+
+            const item = getLegacyItem(actor, shortcut.itemId);
+            return item?.isOfType("consumable") ? createItemReference(item) : undefined;
+        }
+    }
+}
+
+/**
+ * legacy shortcuts only store the item id, the item may still exist elsewhere on the actor
+ * (a spell moved to another entry) or on the world actor of an unlinked token
+ */
+function getLegacyItem(actor: ActorPF2e, itemId: string) {
+    const worldActor = actor.token ? game.actors.get(actor.id) : undefined;
+    return actor.items.get(itemId) ?? worldActor?.items.get(itemId);
+}
+
+function getStrikeIds({ itemId, slug }: { itemId: string; slug: string }) {
+    return { id: itemId, slug };
+}
+
+function getShortcutSpell(actor: ActorPF2e, { entryId, itemId }: SpellShortcutIds) {
+    return (actor as CreaturePF2e).spellcasting?.collections.get(entryId)?.get(itemId);
+}
+
+function createItemReference(item: ItemPF2e): ShortcutItemReference {
+    return {
+        type: item.type,
+        name: item.name,
+        slug: item.slug,
+        sourceId: item.sourceId,
+    };
+}
+
+function getShortcutsList(shortcuts: UserShortcutsData): ShortcutData[] {
+    return R.pipe(
+        R.values(shortcuts),
+        R.flatMap((group) => R.values(group ?? {})),
+        R.filter(R.isTruthy),
+        R.flatMap(flattenShortcut)
+    );
+}
+
+function flattenShortcut(shortcut: ShortcutData): ShortcutData[] {
+    if (shortcut.type !== "combo") return [shortcut];
+    return [shortcut, ...(shortcut.steps as ShortcutData[])];
+}
+
+type ExportDestination = "download" | "clipboard" | "journal";
+
+type SpellShortcutGroupId = Extract<ShortcutData, { type: "spell" }>["groupId"];
+
+type ReferenceGetter = (
+    id: string,
+    reference: Maybe<ShortcutItemReference>
+) => Maybe<Partial<ShortcutItemReference>>;
+
+type SpellShortcutIds = {
+    entryId: string;
+    itemId: string;
+};
+
+type RelinkCache = {
+    sheetData?: Record<string, SpellcastingSheetData>;
+};
+
+type ShortcutsRepairReport = {
+    fixed: string[];
+    failed: string[];
+};
+
+type ShortcutItemReference = {
+    type: string;
+    name: string;
+    slug: string | null;
+    sourceId: string | null;
+};
+
+type ShortcutsExportData = {
+    type: typeof EXPORT_TYPE;
+    actor: {
+        uuid: string;
+        name: string;
+    };
+    shortcuts: UserShortcutsData;
+    references: Record<string, ShortcutItemReference>;
+};
+
+export {
+    addShortcutReferences,
+    exportShortcuts,
+    getStaleShortcuts,
+    importShortcuts,
+    repairShortcuts,
+};
+export type { ShortcutItemReference };